@@ -0,0 +1,18 @@
+-- Stored generator templates (routes/templates.ts, db/templateRepo.ts).
+-- focus/profile are optional tags: a tagged template joins the block choices
+-- for /generate requests with that focus (and profile, when set).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS workout_templates (
+  id          uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        text        NOT NULL,
+  focus       text,
+  profile     text,
+  shorthand   text        NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS workout_templates_focus_profile_idx
+  ON workout_templates (focus, profile);
@@ -0,0 +1,16 @@
+-- Periodized training plans (routes/plans.ts, db/planRepo.ts).
+-- Weeks are generated once and stored, so later generator changes never
+-- rewrite an existing plan; sessions saved as workouts carry their workoutId.
+-- week_revisions holds one counter per week, bumped each time that week is
+-- regenerated.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS training_plans (
+  id              uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  parameters      jsonb       NOT NULL,
+  weeks           jsonb       NOT NULL,
+  week_revisions  jsonb       NOT NULL DEFAULT '[]'::jsonb,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
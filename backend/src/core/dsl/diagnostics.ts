@@ -0,0 +1,111 @@
+import {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  DiagnosticSuggestion
+} from '../models/WorkoutTypes';
+import { formatSecondsAsTime, parseTimeToSeconds } from './parseTime';
+
+interface DiagnosticParams {
+  code: DiagnosticCode;
+  message: string;
+  lineNumber: number;
+  severity?: DiagnosticSeverity;
+  line?: string;
+  token?: string;
+  suggestion?: DiagnosticSuggestion;
+}
+
+export function createDiagnostic(params: DiagnosticParams): Diagnostic {
+  const { code, message, lineNumber, line, token, suggestion } = params;
+
+  const diagnostic: Diagnostic = {
+    lineNumber,
+    code,
+    severity: params.severity ?? 'error',
+    message
+  };
+
+  const range = line !== undefined ? locateToken(line, token) : undefined;
+  if (range) {
+    diagnostic.column = range.column;
+    diagnostic.endColumn = range.endColumn;
+  }
+
+  if (suggestion) {
+    diagnostic.suggestion = suggestion;
+  }
+
+  return diagnostic;
+}
+
+function locateToken(
+  line: string,
+  token: string | undefined
+): { column: number; endColumn: number } | undefined {
+  if (token === undefined) {
+    const start = line.length - line.trimStart().length;
+    const end = line.trimEnd().length;
+    return end > start ? { column: start + 1, endColumn: end + 1 } : undefined;
+  }
+
+  const index = line.indexOf(token);
+  if (index < 0 || token.length === 0) {
+    return undefined;
+  }
+
+  return { column: index + 1, endColumn: index + 1 + token.length };
+}
+
+export function suggestTimeFix(token: string): string | undefined {
+  const candidate = token
+    .trim()
+    .replace(/[;.,'"]/g, ':')
+    .replace(/s$/i, '')
+    .replace(/^:/, '0:');
+
+  if (!/^\d+(?::\d{2})?$/.test(candidate)) {
+    return undefined;
+  }
+
+  const seconds = parseTimeToSeconds(candidate);
+  return seconds === undefined ? undefined : formatSecondsAsTime(seconds);
+}
+
+export function suggestClosest(token: string, candidates: string[]): string | undefined {
+  const lower = token.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  const maxDistance = token.length <= 4 ? 1 : 2;
+  return bestDistance > 0 && bestDistance <= maxDistance ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,127 @@
+import { parseTimeToSeconds } from './parseTime';
+
+export const VARIABLE_NAME_REGEX = /^[a-z_][a-z0-9_]*$/i;
+
+const TOKEN_REGEX = /\s*(\d+:\d{2}|\d+|[a-z_][a-z0-9_]*|[+\-*()])/iy;
+
+export interface ExpressionResult {
+  value?: number;
+  error?: string;
+  undefinedVariable?: string;
+}
+
+class ExpressionError extends Error {
+  constructor(message: string, readonly undefinedVariable?: string) {
+    super(message);
+  }
+}
+
+export function isTimeExpression(source: string): boolean {
+  return /[a-z_+\-*()]/i.test(source);
+}
+
+export function evaluateTimeExpression(
+  source: string,
+  variables: Record<string, number>
+): ExpressionResult {
+  let tokens: string[];
+  try {
+    tokens = tokenize(source);
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new ExpressionError('Unexpected end of expression.');
+    }
+
+    if (token === '(') {
+      const value = parseSum();
+      if (next() !== ')') {
+        throw new ExpressionError('Missing closing ")".');
+      }
+      return value;
+    }
+
+    if (token === '-') {
+      return -parsePrimary();
+    }
+
+    if (/^\d/.test(token)) {
+      const seconds = parseTimeToSeconds(token);
+      if (seconds === undefined) {
+        throw new ExpressionError(`Invalid time "${token}".`);
+      }
+      return seconds;
+    }
+
+    if (VARIABLE_NAME_REGEX.test(token)) {
+      const key = token.toLowerCase();
+      if (!(key in variables)) {
+        throw new ExpressionError(`Undefined variable "${token}".`, token);
+      }
+      return variables[key];
+    }
+
+    throw new ExpressionError(`Unexpected "${token}".`);
+  };
+
+  const parseProduct = (): number => {
+    let value = parsePrimary();
+    while (peek() === '*') {
+      next();
+      value *= parsePrimary();
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next();
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  try {
+    const value = parseSum();
+    if (position < tokens.length) {
+      throw new ExpressionError(`Unexpected "${tokens[position]}".`);
+    }
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ExpressionError('Expression must evaluate to a non-negative time.');
+    }
+    return { value: Math.round(value) };
+  } catch (err) {
+    if (err instanceof ExpressionError) {
+      return { error: err.message, undefinedVariable: err.undefinedVariable };
+    }
+    throw err;
+  }
+}
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  const trimmed = source.trim();
+  TOKEN_REGEX.lastIndex = 0;
+
+  while (TOKEN_REGEX.lastIndex < trimmed.length) {
+    const start = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(trimmed);
+    if (!match) {
+      throw new ExpressionError(`Unexpected character "${trimmed[start]}".`);
+    }
+    tokens.push(match[1]);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,204 @@
+import { InterpretedWorkout, SetInterval, WorkoutHeader } from '../models/WorkoutTypes';
+import { interpretShorthand } from './interpreter';
+import { formatSecondsAsTime } from './parseTime';
+import { normalizeSectionName } from './sections';
+
+const VARIABLE_KEYS = ['base', 'let'];
+const HEADER_KEYS = ['pool', 'duration', 'title', 'focus', 'profile', 'groups', 'lanes', ...VARIABLE_KEYS];
+const BLOCK_OPEN_REGEX = /^(\d+)\s*x\s*\{$/i;
+const BLOCK_CLOSE = '}';
+const INDENT = '  ';
+
+export function formatShorthand(text: string): string {
+  const interpreted = interpretShorthand(text);
+  return formatInterpretedWorkout(text, interpreted);
+}
+
+export function formatInterpretedWorkout(text: string, interpreted: InterpretedWorkout): string {
+  const lines = text.split(/\r?\n/);
+  const linesWithErrors = new Set(interpreted.errors.map((e) => e.lineNumber));
+
+  const firstSetByLine = new Map<number, SetInterval>();
+  for (const set of interpreted.sets) {
+    if (!firstSetByLine.has(set.lineNumber)) {
+      firstSetByLine.set(set.lineNumber, set);
+    }
+  }
+
+  const headerLines = formatHeader(interpreted.header);
+  const definitionLines: string[] = [];
+  const body: string[] = [];
+
+  let inSection = false;
+  let blockDepth = 0;
+
+  const indent = () => INDENT.repeat((inSection ? 1 : 0) + blockDepth);
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const lineNumber = index + 1;
+    const trimmed = lines[index].trim();
+
+    if (trimmed.length === 0) {
+      if (body.length > 0 && body[body.length - 1] !== '') {
+        body.push('');
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('#')) {
+      body.push(`${indent()}# ${trimmed.slice(1).trim()}`);
+      continue;
+    }
+
+    const blockOpenMatch = trimmed.match(BLOCK_OPEN_REGEX);
+    if (blockOpenMatch) {
+      body.push(`${indent()}${Number.parseInt(blockOpenMatch[1], 10)}x {`);
+      blockDepth += 1;
+      continue;
+    }
+
+    if (trimmed === BLOCK_CLOSE) {
+      blockDepth = Math.max(0, blockDepth - 1);
+      body.push(`${indent()}}`);
+      continue;
+    }
+
+    if (trimmed.endsWith(':') && !linesWithErrors.has(lineNumber)) {
+      body.push(`${INDENT.repeat(blockDepth)}${normalizeSectionName(trimmed.slice(0, -1))}:`);
+      inSection = true;
+      continue;
+    }
+
+    const firstToken = trimmed.split(/\s+/)[0].toLowerCase();
+    if (HEADER_KEYS.includes(firstToken)) {
+      if (linesWithErrors.has(lineNumber)) {
+        definitionLines.push(trimmed);
+      } else if (VARIABLE_KEYS.includes(firstToken)) {
+        definitionLines.push(formatVariableDefinition(trimmed));
+      }
+      continue;
+    }
+
+    const set = firstSetByLine.get(lineNumber);
+    if (!set || linesWithErrors.has(lineNumber)) {
+      body.push(`${indent()}${trimmed}`);
+      continue;
+    }
+
+    body.push(`${indent()}${formatSetLine(set)}`);
+  }
+
+  while (body.length > 0 && body[body.length - 1] === '') {
+    body.pop();
+  }
+  while (body.length > 0 && body[0] === '') {
+    body.shift();
+  }
+
+  const allHeaderLines = [...headerLines, ...definitionLines];
+  if (allHeaderLines.length === 0) {
+    return body.join('\n');
+  }
+
+  return [...allHeaderLines, '', ...body].join('\n');
+}
+
+export function formatSetLine(set: SetInterval): string {
+  const groupVariants = Object.values(set.groups ?? {});
+  const repsVariants = groupVariants.map((variant) => variant.reps);
+  const sendOffVariants = groupVariants.map((variant) => variant.sendOffSeconds);
+
+  const repsPart = repsVariants.some((reps) => reps !== set.reps)
+    ? `${repsVariants.join('/')}x`
+    : set.reps > 1
+      ? `${set.reps}x`
+      : '';
+  const distancePart = set.durationSeconds !== undefined
+    ? formatDuration(set.durationSeconds)
+    : set.ladder
+      ? set.ladder.distances.join('-')
+      : `${set.distance}`;
+
+  const tokens: string[] = [`${repsPart}${distancePart}`, set.stroke];
+
+  if (set.modifiers) {
+    tokens.push(...set.modifiers);
+  }
+
+  if (set.strokeSplitDistance !== undefined) {
+    tokens.push(`by ${set.strokeSplitDistance}`);
+  }
+
+  if (sendOffVariants.some((seconds) => seconds !== set.sendOffSeconds)) {
+    tokens.push(`@${sendOffVariants.map((seconds) => formatSecondsAsTime(seconds)).join('/')}`);
+  } else if (set.sendOffExpression !== undefined) {
+    const perDistance = set.sendOffPer100Seconds !== undefined ? '/100' : '';
+    tokens.push(`@${set.sendOffExpression}${perDistance}`);
+  } else if (set.sendOffPer100Seconds !== undefined) {
+    tokens.push(`@${formatSecondsAsTime(set.sendOffPer100Seconds)}/100`);
+  } else if (set.sendOffSeconds !== undefined) {
+    tokens.push(`@${formatSecondsAsTime(set.sendOffSeconds)}`);
+  }
+
+  if (set.restSeconds !== undefined) {
+    tokens.push(`rest ${formatSecondsAsTime(set.restSeconds)}`);
+  }
+
+  if (set.intensity) {
+    tokens.push(set.intensity);
+  }
+
+  if (set.progression) {
+    const { kind, fromRep, toRep } = set.progression;
+    const keyword = kind === 'descend' ? 'desc' : 'build';
+    const explicitRange = fromRep !== 1 || toRep !== set.reps;
+    tokens.push(explicitRange ? `${keyword} ${fromRep}-${toRep}` : keyword);
+  }
+
+  if (set.equipment && set.equipment.length > 0) {
+    tokens.push(`w/ ${set.equipment.join(' + ')}`);
+  }
+
+  return tokens.join(' ');
+}
+
+function formatDuration(seconds: number): string {
+  return seconds % 60 === 0 ? `${seconds / 60}min` : formatSecondsAsTime(seconds) ?? `${seconds}`;
+}
+
+function formatVariableDefinition(trimmedLine: string): string {
+  const [keyword, ...rest] = trimmedLine.split(/\s+/);
+  const definition = rest.join('');
+
+  if (keyword.toLowerCase() === 'base') {
+    return `base ${definition}`;
+  }
+
+  const [name, expression] = definition.split('=');
+  return `let ${name} = ${expression}`;
+}
+
+function formatHeader(header: WorkoutHeader): string[] {
+  const lines: string[] = [];
+
+  if (header.poolLength !== undefined) {
+    lines.push(`pool ${header.poolLength}${header.poolUnit ?? 'm'}`);
+  }
+  if (header.plannedDurationMinutes !== undefined) {
+    lines.push(`duration ${header.plannedDurationMinutes}min`);
+  }
+  if (header.title !== undefined) {
+    lines.push(`title ${header.title}`.trim());
+  }
+  if (header.focus !== undefined) {
+    lines.push(`focus ${header.focus}`.trim());
+  }
+  if (header.profile !== undefined) {
+    lines.push(`profile ${header.profile}`.trim());
+  }
+  if (header.groups !== undefined) {
+    lines.push(`groups ${header.groups.join(' ')}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,49 @@
+import { InterpretedWorkout, SetInterval } from '../models/WorkoutTypes';
+
+export function defaultGroupName(index: number): string {
+  return String.fromCharCode('A'.charCodeAt(0) + index);
+}
+
+export function groupNameAt(declared: string[], index: number): string {
+  return declared[index] ?? defaultGroupName(index);
+}
+
+export function collectGroupNames(sets: SetInterval[], declared: string[] = []): string[] {
+  const names = [...declared];
+  for (const set of sets) {
+    for (const name of Object.keys(set.groups ?? {})) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+export function setsForGroup(sets: SetInterval[], group: string): SetInterval[] {
+  return sets.map((set) => {
+    if (!set.groups) return set;
+
+    const { groups, ...rest } = set;
+    const variant = groups[group];
+    if (!variant) return rest;
+
+    return {
+      ...rest,
+      reps: variant.reps,
+      sendOffSeconds: variant.sendOffSeconds
+    };
+  });
+}
+
+export function workoutForGroup(workout: InterpretedWorkout, group: string): InterpretedWorkout {
+  const title = workout.header.title || 'SwimSet Workout';
+
+  return {
+    ...workout,
+    header: { ...workout.header, title: `${title} — Lane ${group}` },
+    sets: setsForGroup(workout.sets, group),
+    totals: workout.totals.byGroup?.[group] ?? workout.totals,
+    groups: undefined
+  };
+}
@@ -1,23 +1,93 @@
 import {
+  Diagnostic,
+  DistanceUnit,
+  Equipment,
+  GroupVariant,
   InterpretedWorkout,
-  ParseError,
+  Progression,
+  ProgressionKind,
+  RepeatBlockRef,
   SectionName,
   SetInterval,
   WorkoutHeader,
   WorkoutTotals
 } from '../models/WorkoutTypes';
 import { parseTimeToSeconds } from './parseTime';
+import { fromMeters, parseDistanceUnit, toMeters } from './units';
+import { extractTags } from './tags';
+import {
+  activityOf,
+  extractStrokeSplit,
+  isKnownStroke,
+  knownStrokeTokens,
+  normalizeStrokeToken,
+  resolveStroke,
+  splitDistanceByStroke
+} from './strokes';
+import { normalizeSectionName } from './sections';
+import { createDiagnostic, suggestClosest, suggestTimeFix } from './diagnostics';
+import { validateAgainstPool } from './validation';
+import { collectGroupNames, groupNameAt, setsForGroup } from './groups';
+import { knownIntensityTokens, resolveZone } from './zones';
+import {
+  ExpressionResult,
+  VARIABLE_NAME_REGEX,
+  evaluateTimeExpression,
+  isTimeExpression
+} from './expressions';
 
 const SET_LINE_REGEX =
-  /^(?:(\d+)x)?(\d+)\s+(\S+)(?:\s+@(\S+))?(?:\s+(\S+))?$/;
+  /^(?:(\d+(?:\/\d+)*)x)?(\d+)\s+(\S+)(?:\s+@(\S+))?(?:\s+(\S+))?$/;
+
+const REST_INLINE_REGEX = /^r:?(\d*:?\d+s?)$/i;
+const REST_OFFSET_REGEX = /^\+(\d*:?\d+s?)$/;
+const REST_TIME_REGEX = /^(\d*:?\d+s?)$/;
+const REST_KEYWORD = 'rest';
+
+const LADDER_REGEX = /^(?:(\d+)x)?(\d+(?:-\d+)+)$/;
+const SEND_OFF_PER_DISTANCE_REGEX = /^(.+)\/(\d+)$/;
+const REP_RANGE_REGEX = /^(\d+)-(\d+)$/;
+
+const PROGRESSION_KEYWORDS: Record<string, ProgressionKind> = {
+  desc: 'descend',
+  des: 'descend',
+  descend: 'descend',
+  build: 'build',
+  bld: 'build'
+};
+
+const TIME_TOKEN_REGEX = /^\d+(?::\d{2})?$/;
+
+const DURATION_MINUTES_REGEX = /^(?:(\d+)x)?(\d+)(?:min|mins|minutes|')$/i;
+const DURATION_CLOCK_REGEX = /^(?:(\d+)x)?(\d+:\d{2})$/;
+const DURATION_TEST_REGEX = /^T-?(\d+)$/i;
+const DURATION_UNIT_REGEX = /^(?:min|mins|minutes)$/i;
+const MAX_DISTANCE_MODIFIER = 'max-distance';
+
+export const DEFAULT_PACE_SECONDS_PER_100 = 90;
+
+const POOL_LENGTH_REGEX = /^(\d+)\s*([a-z]+)?$/i;
+
+const BLOCK_OPEN_REGEX = /^(\d+)\s*x\s*\{$/i;
+const BLOCK_CLOSE = '}';
+const GROUP_SEPARATOR = '/';
+
+interface OpenBlock {
+  rounds: number;
+  lineNumber: number;
+  sets: SetInterval[];
+}
 
 export function interpretShorthand(text: string): InterpretedWorkout {
   const header: WorkoutHeader = {};
   const sets: SetInterval[] = [];
-  const errors: ParseError[] = [];
-  const warnings: string[] = [];
+  const errors: Diagnostic[] = [];
+  const warnings: Diagnostic[] = [];
+  const headerLineNumbers: Record<string, number> = {};
 
   let currentSection: SectionName = 'main';
+  let hasExplicitSection = false;
+  const blockStack: OpenBlock[] = [];
 
   const lines = text.split(/\r?\n/);
 
@@ -30,26 +100,111 @@ export function interpretShorthand(text: string): InterpretedWorkout {
       continue;
     }
 
+    const blockOpenMatch = trimmed.match(BLOCK_OPEN_REGEX);
+    if (blockOpenMatch) {
+      const rounds = Number.parseInt(blockOpenMatch[1], 10);
+      if (!Number.isFinite(rounds) || rounds <= 0) {
+        errors.push(
+          createDiagnostic({
+            code: 'invalid-repeat-count',
+            message: `Invalid repeat count "${blockOpenMatch[1]}".`,
+            lineNumber,
+            line: rawLine,
+            token: blockOpenMatch[1]
+          })
+        );
+      }
+      blockStack.push({
+        rounds: Number.isFinite(rounds) && rounds > 0 ? rounds : 0,
+        lineNumber,
+        sets: []
+      });
+      continue;
+    }
+
+    if (trimmed === BLOCK_CLOSE) {
+      const block = blockStack.pop();
+      if (!block) {
+        errors.push(
+          createDiagnostic({
+            code: 'unmatched-block-close',
+            message: 'Unexpected "}" without a matching repeat block.',
+            lineNumber,
+            line: rawLine,
+            token: BLOCK_CLOSE,
+            suggestion: { message: 'Remove the extra "}".', replacement: '' }
+          })
+        );
+        continue;
+      }
+
+      if (block.sets.length === 0) {
+        errors.push(
+          createDiagnostic({
+            code: 'empty-block',
+            message: 'Empty repeat block.',
+            lineNumber: block.lineNumber,
+            line: lines[block.lineNumber - 1]
+          })
+        );
+        continue;
+      }
+
+      const target = blockStack.length > 0 ? blockStack[blockStack.length - 1].sets : sets;
+      target.push(...expandBlock(block));
+      continue;
+    }
+
     if (trimmed.endsWith(':')) {
-      const sectionName = trimmed.slice(0, -1).trim().toLowerCase();
+      const sectionName = normalizeSectionName(trimmed.slice(0, -1));
       if (sectionName.length === 0) {
-        errors.push({
-          lineNumber,
-          message: 'Empty section name.'
-        });
+        errors.push(
+          createDiagnostic({
+            code: 'empty-section',
+            message: 'Empty section name.',
+            lineNumber,
+            line: rawLine
+          })
+        );
         continue;
       }
-      currentSection = sectionName as SectionName;
+      currentSection = sectionName;
+      hasExplicitSection = true;
       continue;
     }
 
-    if (handleHeaderLine(trimmed, header, lineNumber, errors)) {
+    const headerKey = handleHeaderLine(trimmed, rawLine, header, lineNumber, errors);
+    if (headerKey) {
+      headerLineNumbers[headerKey] = lineNumber;
       continue;
     }
 
-    const set = parseSetLine(trimmed, currentSection, lineNumber, errors);
-    if (set) {
-      sets.push({
+    const parsedSets = parseSetLine(
+      trimmed,
+      rawLine,
+      currentSection,
+      lineNumber,
+      errors,
+      warnings,
+      header.variables ?? {},
+      header.groups ?? []
+    );
+    if (parsedSets.length > 0 && !hasExplicitSection) {
+      warnings.push(
+        createDiagnostic({
+          code: 'implicit-section',
+          severity: 'info',
+          message: `Set appears before any section header and is counted under "${currentSection}".`,
+          lineNumber,
+          line: rawLine
+        })
+      );
+      hasExplicitSection = true;
+    }
+
+    const target = blockStack.length > 0 ? blockStack[blockStack.length - 1].sets : sets;
+    for (const set of parsedSets) {
+      target.push({
         ...set,
         raw: rawLine,
         lineNumber
@@ -57,56 +212,153 @@ export function interpretShorthand(text: string): InterpretedWorkout {
     }
   }
 
-  const totals = computeTotals(sets);
-  const estimatedMinutes = estimateDurationMinutes(sets, totals.totalDistanceMeters);
+  for (const block of blockStack) {
+    errors.push(
+      createDiagnostic({
+        code: 'unclosed-block',
+        message: 'Repeat block is never closed. Expected "}".',
+        lineNumber: block.lineNumber,
+        line: lines[block.lineNumber - 1]
+      })
+    );
+  }
+
+  // Close unterminated blocks at EOF so one missing "}" doesn't drop their sets.
+  while (blockStack.length > 0) {
+    const block = blockStack.pop() as OpenBlock;
+    const target = blockStack.length > 0 ? blockStack[blockStack.length - 1].sets : sets;
+    target.push(...expandBlock(block));
+  }
+
+  const unit: DistanceUnit = header.poolUnit ?? 'm';
+  const measuredSets = sets.map((set) =>
+    set.durationSeconds !== undefined
+      ? estimateTimedSetDistance(set, unit, header.poolLength)
+      : { ...set, unit, distanceMeters: toMeters(set.distance, unit) }
+  );
+
+  warnings.push(...validateAgainstPool(measuredSets, header, lines));
+
+  const totals = computeTotals(measuredSets, unit);
+  const estimatedMinutes = estimateDurationMinutes(measuredSets, totals.totalDistanceMeters);
 
   if (estimatedMinutes !== undefined) {
     totals.estimatedMinutes = estimatedMinutes;
   }
 
+  const groups = collectGroupNames(measuredSets, header.groups);
+  if (groups.length > 0) {
+    totals.byGroup = {};
+    for (const group of groups) {
+      const groupSets = setsForGroup(measuredSets, group);
+      const groupTotals = computeTotals(groupSets, unit);
+      const groupMinutes = estimateDurationMinutes(groupSets, groupTotals.totalDistanceMeters);
+      if (groupMinutes !== undefined) {
+        groupTotals.estimatedMinutes = groupMinutes;
+      }
+      totals.byGroup[group] = groupTotals;
+    }
+  }
+
   if (header.plannedDurationMinutes !== undefined && totals.estimatedMinutes !== undefined) {
     const diff = totals.estimatedMinutes - header.plannedDurationMinutes;
     const absDiff = Math.abs(diff);
 
     if (absDiff > 10) {
-      if (diff > 0) {
-        warnings.push(
-          `Estimated duration (~${totals.estimatedMinutes.toFixed(
-            1
-          )} min) exceeds planned duration (${header.plannedDurationMinutes} min) by about ${absDiff.toFixed(
-            1
-          )} min.`
-        );
-      } else {
-        warnings.push(
-          `Estimated duration (~${totals.estimatedMinutes.toFixed(
-            1
-          )} min) is significantly shorter than planned duration (${header.plannedDurationMinutes} min) by about ${absDiff.toFixed(
-            1
-          )} min.`
-        );
-      }
+      const estimate = totals.estimatedMinutes.toFixed(1);
+      const planned = header.plannedDurationMinutes;
+      const message =
+        diff > 0
+          ? `Estimated duration (~${estimate} min) exceeds planned duration (${planned} min) by about ${absDiff.toFixed(1)} min.`
+          : `Estimated duration (~${estimate} min) is significantly shorter than planned duration (${planned} min) by about ${absDiff.toFixed(1)} min.`;
+
+      const durationLineNumber = headerLineNumbers.duration ?? 1;
+      warnings.push(
+        createDiagnostic({
+          code: 'duration-mismatch',
+          severity: 'warning',
+          message,
+          lineNumber: durationLineNumber,
+          line: lines[durationLineNumber - 1]
+        })
+      );
     }
   }
 
   return {
     header,
-    sets,
+    unit,
+    sets: measuredSets,
     totals,
+    equipment: collectEquipment(measuredSets),
+    groups: groups.length > 0 ? groups : undefined,
     errors,
     warnings
   };
 }
 
+function estimateTimedSetDistance(
+  set: SetInterval,
+  unit: DistanceUnit,
+  poolLength: number | undefined
+): SetInterval {
+  const seconds = set.durationSeconds ?? 0;
+  const estimatedMeters = (seconds / DEFAULT_PACE_SECONDS_PER_100) * 100;
+  const step = poolLength ?? 25;
+  const distance = Math.max(step, Math.round(fromMeters(estimatedMeters, unit) / step) * step);
+
+  return {
+    ...set,
+    unit,
+    distance,
+    distanceMeters: toMeters(distance, unit),
+    distanceEstimated: true
+  };
+}
+
+function collectEquipment(sets: SetInterval[]): Equipment[] {
+  const checklist: Equipment[] = [];
+  for (const set of sets) {
+    for (const item of set.equipment ?? []) {
+      if (!checklist.includes(item)) {
+        checklist.push(item);
+      }
+    }
+  }
+  return checklist;
+}
+
+function expandBlock(block: OpenBlock): SetInterval[] {
+  const expanded: SetInterval[] = [];
+
+  for (let round = 1; round <= block.rounds; round += 1) {
+    const ref: RepeatBlockRef = {
+      lineNumber: block.lineNumber,
+      rounds: block.rounds,
+      round
+    };
+
+    for (const set of block.sets) {
+      expanded.push({
+        ...set,
+        blocks: [ref, ...(set.blocks ?? [])]
+      });
+    }
+  }
+
+  return expanded;
+}
+
 function handleHeaderLine(
   trimmedLine: string,
+  rawLine: string,
   header: WorkoutHeader,
   lineNumber: number,
-  errors: ParseError[]
-): boolean {
+  errors: Diagnostic[]
+): string | undefined {
   const [firstToken, ...restTokens] = trimmedLine.split(/\s+/);
   if (!firstToken) {
-    return false;
+    return undefined;
   }
 
   const key = firstToken.toLowerCase();
@@ -114,16 +366,27 @@ function handleHeaderLine(
 
   switch (key) {
     case 'pool': {
-      const meters = extractInteger(restJoined || firstToken);
-      if (meters !== undefined) {
-        header.poolLengthMeters = meters;
+      const poolMatch = restJoined.match(POOL_LENGTH_REGEX);
+      const length = poolMatch ? Number.parseInt(poolMatch[1], 10) : undefined;
+      const unit = poolMatch && poolMatch[2] ? parseDistanceUnit(poolMatch[2]) : 'm';
+
+      if (length !== undefined && length > 0 && unit) {
+        header.poolLength = length;
+        header.poolUnit = unit;
+        header.poolLengthMeters = Math.round(toMeters(length, unit));
       } else {
-        errors.push({
-          lineNumber,
-          message: `Unable to parse pool length from "${trimmedLine}".`
-        });
+        errors.push(
+          createDiagnostic({
+            code: 'invalid-pool',
+            message: `Unable to parse pool length from "${trimmedLine}".`,
+            lineNumber,
+            line: rawLine,
+            token: restJoined || undefined,
+            suggestion: { message: 'Use a length with a unit, e.g. "25m" or "25yd".', replacement: '25m' }
+          })
+        );
       }
-      return true;
+      return key;
     }
 
     case 'duration': {
@@ -131,34 +394,109 @@ function handleHeaderLine(
       if (minutes !== undefined) {
         header.plannedDurationMinutes = minutes;
       } else {
-        errors.push({
-          lineNumber,
-          message: `Unable to parse duration from "${trimmedLine}".`
-        });
+        errors.push(
+          createDiagnostic({
+            code: 'invalid-duration',
+            message: `Unable to parse duration from "${trimmedLine}".`,
+            lineNumber,
+            line: rawLine,
+            token: restJoined || undefined
+          })
+        );
       }
-      return true;
+      return key;
     }
 
     case 'title': {
       header.title = restJoined || '';
-      return true;
+      return key;
     }
 
     case 'focus': {
       header.focus = restJoined || '';
-      return true;
+      return key;
     }
 
     case 'profile': {
       header.profile = restJoined || '';
-      return true;
+      return key;
+    }
+
+    case 'groups':
+    case 'lanes': {
+      const names = restTokens.flatMap((token) => token.split(',')).filter((name) => name.length > 0);
+      if (names.length > 0) {
+        header.groups = names;
+      }
+      return 'groups';
+    }
+
+    case 'base':
+    case 'let': {
+      const definition =
+        key === 'base' ? { name: 'base', expression: restJoined } : parseLetDefinition(restJoined);
+
+      if (!definition) {
+        errors.push(
+          createDiagnostic({
+            code: 'invalid-expression',
+            message: `Invalid variable definition "${trimmedLine}". Expected "let name = 1:30".`,
+            lineNumber,
+            line: rawLine
+          })
+        );
+        return key;
+      }
+
+      const variables = header.variables ?? {};
+      const result = evaluateTimeExpression(definition.expression, variables);
+      if (result.value === undefined) {
+        errors.push(expressionDiagnostic(result, definition.expression, rawLine, lineNumber));
+        return key;
+      }
+
+      header.variables = { ...variables, [definition.name.toLowerCase()]: result.value };
+      return key;
     }
 
     default:
-      return false;
+      return undefined;
   }
 }
 
+function parseLetDefinition(source: string): { name: string; expression: string } | undefined {
+  const match = source.match(/^(\S+)\s*=\s*(.+)$/);
+  if (!match || !VARIABLE_NAME_REGEX.test(match[1])) {
+    return undefined;
+  }
+  return { name: match[1], expression: match[2] };
+}
+
+function expressionDiagnostic(
+  result: ExpressionResult,
+  expression: string,
+  rawLine: string,
+  lineNumber: number
+): Diagnostic {
+  if (result.undefinedVariable) {
+    return createDiagnostic({
+      code: 'undefined-variable',
+      message: `${result.error} Define it in the header, e.g. "let ${result.undefinedVariable} = 1:30".`,
+      lineNumber,
+      line: rawLine,
+      token: result.undefinedVariable
+    });
+  }
+
+  return createDiagnostic({
+    code: 'invalid-expression',
+    message: `Invalid time expression "${expression}": ${result.error}`,
+    lineNumber,
+    line: rawLine,
+    token: expression
+  });
+}
+
 function extractInteger(source: string | undefined): number | undefined {
   if (!source) return undefined;
   const match = source.match(/(\d+)/);
@@ -171,111 +509,639 @@ function extractInteger(source: string | undefined): number | undefined {
 
 function parseSetLine(
   trimmedLine: string,
+  rawLine: string,
   currentSection: SectionName,
   lineNumber: number,
-  errors: ParseError[]
-): Omit<SetInterval, 'raw' | 'lineNumber'> | null {
-  const match = trimmedLine.match(SET_LINE_REGEX);
+  errors: Diagnostic[],
+  warnings: Diagnostic[],
+  variables: Record<string, number>,
+  groupNames: string[]
+): Omit<SetInterval, 'raw' | 'lineNumber'>[] {
+  const duration = extractDuration(trimmedLine);
+  const rest = extractRest(duration.line);
+  const strokeSplit = extractStrokeSplit(rest.line);
+  const tags = extractTags(strokeSplit.line);
+  const progression = extractProgression(tags.line);
+  const ladder = extractLadder(progression.line);
+  const match = ladder.line.match(SET_LINE_REGEX);
 
   if (!match) {
-    errors.push({
-      lineNumber,
-      message: 'Unrecognized set syntax.'
-    });
-    return null;
+    errors.push(diagnoseUnrecognizedSet(trimmedLine, rawLine, lineNumber));
+    return [];
   }
 
   const [, repsStr, distanceStr, strokeToken, timeToken, intensityToken] = match;
 
-  const reps = repsStr ? Number.parseInt(repsStr, 10) : 1;
-  const distanceMeters = Number.parseInt(distanceStr, 10);
-  const stroke = strokeToken;
+  const repsVariants = repsStr ? repsStr.split(GROUP_SEPARATOR).map((r) => Number.parseInt(r, 10)) : [1];
+  const reps = repsVariants[0];
+  const distance = Number.parseInt(distanceStr, 10);
+  const stroke = normalizeStrokeToken(strokeToken);
   const intensity = intensityToken;
+  const zone = resolveZone(intensity);
 
-  if (!Number.isFinite(reps) || reps <= 0) {
-    errors.push({
-      lineNumber,
-      message: `Invalid reps value "${repsStr ?? ''}".`
-    });
+  if (repsVariants.some((r) => !Number.isFinite(r) || r <= 0)) {
+    errors.push(
+      createDiagnostic({
+        code: 'invalid-reps',
+        message: `Invalid reps value "${repsStr ?? ''}".`,
+        lineNumber,
+        line: rawLine,
+        token: repsStr
+      })
+    );
   }
 
-  if (!Number.isFinite(distanceMeters) || distanceMeters <= 0) {
-    errors.push({
-      lineNumber,
-      message: `Invalid distance value "${distanceStr}".`
-    });
+  if (duration.seconds === undefined && (!Number.isFinite(distance) || distance <= 0)) {
+    errors.push(
+      createDiagnostic({
+        code: 'invalid-distance',
+        message: `Invalid distance value "${distanceStr}".`,
+        lineNumber,
+        line: rawLine,
+        token: distanceStr
+      })
+    );
+  }
+
+  if (ladder.distances && ladder.distances.some((d) => d <= 0)) {
+    errors.push(
+      createDiagnostic({
+        code: 'invalid-ladder',
+        message: `Invalid ladder distances "${ladder.distances.join('-')}".`,
+        lineNumber,
+        line: rawLine,
+        token: ladder.distances.join('-')
+      })
+    );
   }
 
   let sendOffSeconds: number | undefined;
-  if (timeToken) {
-    const parsedSeconds = parseTimeToSeconds(timeToken);
+  let sendOffPer100Seconds: number | undefined;
+  let sendOffExpression: string | undefined;
+  let groupSendOffs: number[] | undefined;
+  const laneGroups = repsVariants.length > 1 || groupNames.length > 0;
+  if (timeToken && isGroupSendOff(timeToken, laneGroups)) {
+    groupSendOffs = parseGroupSendOffs(timeToken, variables, rawLine, lineNumber, errors);
+    sendOffSeconds = groupSendOffs?.[0];
+  } else if (timeToken) {
+    const perDistanceMatch = timeToken.match(SEND_OFF_PER_DISTANCE_REGEX);
+    const timePart = perDistanceMatch ? perDistanceMatch[1] : timeToken;
+    const baseDistance = perDistanceMatch ? Number.parseInt(perDistanceMatch[2], 10) : undefined;
+
+    let parsedSeconds: number | undefined;
+    let expressionFailed = false;
+    if (TIME_TOKEN_REGEX.test(timePart)) {
+      parsedSeconds = parseTimeToSeconds(timePart);
+    } else if (isTimeExpression(timePart)) {
+      const result = evaluateTimeExpression(timePart, variables);
+      if (result.value === undefined) {
+        errors.push(expressionDiagnostic(result, timePart, rawLine, lineNumber));
+        expressionFailed = true;
+      } else {
+        parsedSeconds = result.value;
+        sendOffExpression = timePart;
+      }
+    }
+
+    if (!expressionFailed && (parsedSeconds === undefined || baseDistance === 0)) {
+      const fixedTime = suggestTimeFix(timePart);
+      const fixed = fixedTime && perDistanceMatch ? `${fixedTime}/${perDistanceMatch[2]}` : fixedTime;
+      errors.push(
+        createDiagnostic({
+          code: 'invalid-time',
+          message: `Invalid time format "${timeToken}". Expected formats like "1:40", "45" or "1:30/100".`,
+          lineNumber,
+          line: rawLine,
+          token: `@${timeToken}`,
+          suggestion: fixed
+            ? { message: `Did you mean "@${fixed}"?`, replacement: `@${fixed}` }
+            : undefined
+        })
+      );
+    } else if (parsedSeconds !== undefined && baseDistance !== undefined) {
+      sendOffPer100Seconds = (parsedSeconds * 100) / baseDistance;
+    } else if (parsedSeconds !== undefined) {
+      sendOffSeconds = parsedSeconds;
+    }
+  }
+
+  let restSeconds: number | undefined;
+  if (rest.restToken) {
+    const parsedSeconds = parseRestToSeconds(rest.restToken);
     if (parsedSeconds === undefined) {
-      errors.push({
-        lineNumber,
-        message: `Invalid time format "${timeToken}". Expected formats like "1:40" or "45".`
-      });
+      errors.push(
+        createDiagnostic({
+          code: 'invalid-rest',
+          message: `Invalid rest format "${rest.restToken}". Expected formats like "r:15", "+20s rest" or "rest 0:20".`,
+          lineNumber,
+          line: rawLine,
+          token: rest.restToken
+        })
+      );
     } else {
-      sendOffSeconds = parsedSeconds;
+      restSeconds = parsedSeconds;
+    }
+  }
+
+  const validReps = Number.isFinite(reps) && reps > 0 ? reps : 0;
+
+  let setProgression: Progression | undefined;
+  if (progression.kind) {
+    const fromRep = progression.fromRep ?? 1;
+    const toRep = progression.toRep ?? validReps;
+    if (fromRep < 1 || toRep < fromRep || toRep > validReps) {
+      errors.push(
+        createDiagnostic({
+          code: 'invalid-progression-range',
+          message: `Invalid ${progression.kind} range "${fromRep}-${toRep}" for ${validReps} reps.`,
+          lineNumber,
+          line: rawLine,
+          token: `${fromRep}-${toRep}`,
+          suggestion: validReps > 1
+            ? { message: `Did you mean "1-${validReps}"?`, replacement: `1-${validReps}` }
+            : undefined
+        })
+      );
+    } else {
+      setProgression = { kind: progression.kind, fromRep, toRep };
+    }
+  }
+
+  for (const part of stroke.split('/')) {
+    if (isKnownStroke(part)) continue;
+
+    const closestToken = suggestClosest(part, knownStrokeTokens());
+    const closest = closestToken ? resolveStroke(closestToken) : undefined;
+    warnings.push(
+      createDiagnostic({
+        code: 'unknown-stroke',
+        severity: 'warning',
+        message: `Unknown stroke "${part}".`,
+        lineNumber,
+        line: rawLine,
+        token: part,
+        suggestion: closest ? { message: `Did you mean "${closest}"?`, replacement: closest } : undefined
+      })
+    );
+  }
+
+  if (intensity && !zone) {
+    const closest = suggestClosest(intensity, knownIntensityTokens());
+    warnings.push(
+      createDiagnostic({
+        code: 'unknown-intensity',
+        severity: 'warning',
+        message: `Unknown intensity "${intensity}"; it will not count toward any zone.`,
+        lineNumber,
+        line: rawLine,
+        token: intensity,
+        suggestion: closest ? { message: `Did you mean "${closest}"?`, replacement: closest } : undefined
+      })
+    );
+  }
+
+  const groupVariants = buildGroupVariants(
+    repsVariants,
+    groupSendOffs,
+    groupNames,
+    rawLine,
+    lineNumber,
+    warnings
+  );
+
+  const distances = ladder.distances ?? [distance];
+  const modifiers =
+    duration.maxDistance && !tags.modifiers.includes(MAX_DISTANCE_MODIFIER)
+      ? [...tags.modifiers, MAX_DISTANCE_MODIFIER]
+      : tags.modifiers;
+
+  return distances.map((stepDistance, index) => {
+    const validDistance = Number.isFinite(stepDistance) && stepDistance > 0 ? stepDistance : 0;
+    const stepSendOff =
+      sendOffPer100Seconds !== undefined
+        ? Math.round((sendOffPer100Seconds * validDistance) / 100)
+        : sendOffSeconds;
+
+    return {
+      section: currentSection,
+      reps: validReps,
+      distance: validDistance,
+      unit: 'm',
+      distanceMeters: validDistance,
+      stroke,
+      strokeToken: strokeToken !== stroke ? strokeToken : undefined,
+      strokeSplitDistance: strokeSplit.splitDistance,
+      sendOffSeconds: stepSendOff,
+      sendOffPer100Seconds,
+      sendOffExpression,
+      restSeconds,
+      intensity,
+      zone,
+      durationSeconds: duration.seconds,
+      equipment: tags.equipment.length > 0 ? tags.equipment : undefined,
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
+      progression: setProgression,
+      ladder: ladder.distances ? { distances: ladder.distances, step: index + 1 } : undefined,
+      groups: groupVariants ? withStepSendOff(groupVariants, stepSendOff) : undefined
+    };
+  });
+}
+
+// "@1:30/100" is a per-distance pace; "@1:30/1:40" is one send-off per lane group.
+// Two bare numbers ("@45/50") are ambiguous, so they only read as lane send-offs on
+// lines that already split into groups (reps variants or a "groups" header).
+function isGroupSendOff(timeToken: string, laneGroups: boolean): boolean {
+  const parts = timeToken.split(GROUP_SEPARATOR);
+  if (parts.length > 2) return true;
+  if (parts.length !== 2) return false;
+  if (parts[1].includes(':')) return true;
+
+  return (
+    laneGroups &&
+    parts.every((part) => TIME_TOKEN_REGEX.test(part) && !part.includes(':')) &&
+    parts.every((part) => (parseTimeToSeconds(part) ?? 0) > 0)
+  );
+}
+
+function parseGroupSendOffs(
+  timeToken: string,
+  variables: Record<string, number>,
+  rawLine: string,
+  lineNumber: number,
+  errors: Diagnostic[]
+): number[] | undefined {
+  const values: number[] = [];
+
+  for (const part of timeToken.split(GROUP_SEPARATOR)) {
+    const seconds = TIME_TOKEN_REGEX.test(part) ? parseTimeToSeconds(part) : undefined;
+    if (seconds !== undefined) {
+      values.push(seconds);
+      continue;
+    }
+
+    if (part.length > 0 && isTimeExpression(part)) {
+      const result = evaluateTimeExpression(part, variables);
+      if (result.value === undefined) {
+        errors.push(expressionDiagnostic(result, part, rawLine, lineNumber));
+        return undefined;
+      }
+      values.push(result.value);
+      continue;
+    }
+
+    const fixed = suggestTimeFix(part);
+    errors.push(
+      createDiagnostic({
+        code: 'invalid-time',
+        message: `Invalid time format "${part}" in lane send-offs "${timeToken}". Expected formats like "1:30/1:40/1:50".`,
+        lineNumber,
+        line: rawLine,
+        token: part || `@${timeToken}`,
+        suggestion: fixed ? { message: `Did you mean "${fixed}"?`, replacement: fixed } : undefined
+      })
+    );
+    return undefined;
+  }
+
+  return values;
+}
+
+function buildGroupVariants(
+  repsVariants: number[],
+  sendOffVariants: number[] | undefined,
+  groupNames: string[],
+  rawLine: string,
+  lineNumber: number,
+  warnings: Diagnostic[]
+): Record<string, GroupVariant> | undefined {
+  const sendOffs = sendOffVariants ?? [];
+  const variantCount = Math.max(repsVariants.length, sendOffs.length);
+  if (variantCount <= 1) {
+    return undefined;
+  }
+
+  const mismatchedLists =
+    repsVariants.length > 1 && sendOffs.length > 1 && repsVariants.length !== sendOffs.length;
+  if (mismatchedLists || (groupNames.length > 0 && variantCount !== groupNames.length)) {
+    const expected = groupNames.length > 0 ? groupNames.length : Math.min(repsVariants.length, sendOffs.length);
+    warnings.push(
+      createDiagnostic({
+        code: 'group-count-mismatch',
+        severity: 'warning',
+        message: `Expected ${expected} lane variants but found ${variantCount}; missing lanes repeat the last value.`,
+        lineNumber,
+        line: rawLine
+      })
+    );
+  }
+
+  const groupCount = Math.max(variantCount, groupNames.length);
+  const variants: Record<string, GroupVariant> = {};
+  for (let index = 0; index < groupCount; index += 1) {
+    const variant: GroupVariant = {
+      reps: repsVariants[Math.min(index, repsVariants.length - 1)]
+    };
+    if (sendOffs.length > 0) {
+      variant.sendOffSeconds = sendOffs[Math.min(index, sendOffs.length - 1)];
     }
+    variants[groupNameAt(groupNames, index)] = variant;
+  }
+
+  return variants;
+}
+
+function withStepSendOff(
+  variants: Record<string, GroupVariant>,
+  stepSendOff: number | undefined
+): Record<string, GroupVariant> {
+  const result: Record<string, GroupVariant> = {};
+  for (const [group, variant] of Object.entries(variants)) {
+    const sendOffSeconds = variant.sendOffSeconds ?? stepSendOff;
+    result[group] = sendOffSeconds !== undefined ? { ...variant, sendOffSeconds } : variant;
+  }
+  return result;
+}
+
+function diagnoseUnrecognizedSet(trimmedLine: string, rawLine: string, lineNumber: number): Diagnostic {
+  const [first, second] = trimmedLine.split(/\s+/);
+
+  const repsMatch = first.match(/^(\d+)[X×*](\d+)$/);
+  if (repsMatch) {
+    const replacement = `${repsMatch[1]}x${repsMatch[2]}`;
+    return createDiagnostic({
+      code: 'unrecognized-set',
+      message: `Unrecognized reps notation "${first}".`,
+      lineNumber,
+      line: rawLine,
+      token: first,
+      suggestion: { message: `Did you mean "${replacement}"?`, replacement }
+    });
+  }
+
+  const spacedSendOff = trimmedLine.match(/@\s+(\S+)/);
+  if (spacedSendOff) {
+    const replacement = `@${spacedSendOff[1]}`;
+    return createDiagnostic({
+      code: 'unrecognized-set',
+      message: 'Send-off must directly follow "@".',
+      lineNumber,
+      line: rawLine,
+      token: spacedSendOff[0],
+      suggestion: { message: `Did you mean "${replacement}"?`, replacement }
+    });
+  }
+
+  if (/^\d/.test(first) && second === undefined) {
+    return createDiagnostic({
+      code: 'unrecognized-set',
+      message: 'Missing stroke after distance.',
+      lineNumber,
+      line: rawLine,
+      token: first,
+      suggestion: { message: 'Add a stroke, e.g. "FR".', replacement: `${first} FR` }
+    });
   }
 
+  return createDiagnostic({
+    code: 'unrecognized-set',
+    message: 'Unrecognized set syntax.',
+    lineNumber,
+    line: rawLine
+  });
+}
+
+function extractDuration(line: string): { line: string; seconds?: number; maxDistance?: boolean } {
+  let tokens = line.split(/\s+/);
+  let maxDistance = false;
+
+  const maxIndex = tokens.findIndex(
+    (t, i) => t.toLowerCase() === 'max' && tokens[i + 1]?.toLowerCase() === 'distance'
+  );
+  if (maxIndex >= 1) {
+    tokens = [...tokens.slice(0, maxIndex), ...tokens.slice(maxIndex + 2)];
+    maxDistance = true;
+  }
+
+  if (tokens[0].toLowerCase() === 'swim' && tokens[1] && DURATION_CLOCK_REGEX.test(tokens[1])) {
+    tokens = [tokens[1], 'choice', ...tokens.slice(2)];
+  }
+
+  const testMatch = tokens[0].match(DURATION_TEST_REGEX);
+  if (testMatch) {
+    const [, minutes] = testMatch;
+    const strokeAndRest = tokens.length > 1 && !tokens[1].startsWith('@') ? tokens.slice(1) : ['FR', ...tokens.slice(1)];
+    return {
+      line: ['0', ...strokeAndRest].join(' '),
+      seconds: Number.parseInt(minutes, 10) * 60,
+      maxDistance: true
+    };
+  }
+
+  if (tokens[1] && DURATION_UNIT_REGEX.test(tokens[1]) && /^(?:\d+x)?\d+$/.test(tokens[0])) {
+    tokens = [`${tokens[0]}${tokens[1]}`, ...tokens.slice(2)];
+  }
+
+  const minutesMatch = tokens[0].match(DURATION_MINUTES_REGEX);
+  const clockMatch = tokens[0].match(DURATION_CLOCK_REGEX);
+  const match = minutesMatch ?? clockMatch;
+  if (!match) {
+    return { line: maxDistance ? tokens.join(' ') : line, maxDistance };
+  }
+
+  const [, repsStr, amount] = match;
+  const seconds = minutesMatch ? Number.parseInt(amount, 10) * 60 : parseTimeToSeconds(amount);
+  const repsPart = repsStr ? `${repsStr}x` : '';
+
+  return {
+    line: [`${repsPart}0`, ...tokens.slice(1)].join(' '),
+    seconds,
+    maxDistance
+  };
+}
+
+function extractLadder(line: string): { line: string; distances?: number[] } {
+  const [first, ...others] = line.split(/\s+/);
+  const match = first.match(LADDER_REGEX);
+  if (!match) {
+    return { line };
+  }
+
+  const distances = match[2].split('-').map((d) => Number.parseInt(d, 10));
+  const repsPart = match[1] ? `${match[1]}x` : '';
   return {
-    section: currentSection,
-    reps: Number.isFinite(reps) && reps > 0 ? reps : 0,
-    distanceMeters: Number.isFinite(distanceMeters) && distanceMeters > 0 ? distanceMeters : 0,
-    stroke,
-    sendOffSeconds,
-    intensity
+    line: [`${repsPart}${distances[0]}`, ...others].join(' '),
+    distances
   };
 }
 
-function computeTotals(sets: SetInterval[]): WorkoutTotals {
-  let totalDistanceMeters = 0;
+function extractProgression(line: string): {
+  line: string;
+  kind?: ProgressionKind;
+  fromRep?: number;
+  toRep?: number;
+} {
+  const tokens = line.split(/\s+/);
+
+  for (let i = 2; i < tokens.length; i += 1) {
+    const kind = PROGRESSION_KEYWORDS[tokens[i].toLowerCase()];
+    if (!kind) continue;
+
+    const rangeMatch = tokens[i + 1]?.match(REP_RANGE_REGEX);
+    if (rangeMatch) {
+      return {
+        line: removeTokens(tokens, i, 2),
+        kind,
+        fromRep: Number.parseInt(rangeMatch[1], 10),
+        toRep: Number.parseInt(rangeMatch[2], 10)
+      };
+    }
+
+    return { line: removeTokens(tokens, i, 1), kind };
+  }
+
+  return { line };
+}
+
+function extractRest(trimmedLine: string): { line: string; restToken?: string } {
+  const tokens = trimmedLine.split(/\s+/);
+
+  // The first two tokens are always reps/distance and stroke.
+  for (let i = 2; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+    const prev = tokens[i - 1];
+
+    const inline = token.match(REST_INLINE_REGEX);
+    if (inline) {
+      return { line: removeTokens(tokens, i, 1), restToken: inline[1] };
+    }
+
+    const offset = token.match(REST_OFFSET_REGEX);
+    if (offset) {
+      const count = next && next.toLowerCase() === REST_KEYWORD ? 2 : 1;
+      return { line: removeTokens(tokens, i, count), restToken: offset[1] };
+    }
+
+    if (token.toLowerCase() === REST_KEYWORD) {
+      if (next && REST_TIME_REGEX.test(next)) {
+        return { line: removeTokens(tokens, i, 2), restToken: next };
+      }
+      if (i > 2 && REST_TIME_REGEX.test(prev)) {
+        return { line: removeTokens(tokens, i - 1, 2), restToken: prev };
+      }
+    }
+  }
+
+  return { line: trimmedLine };
+}
+
+function removeTokens(tokens: string[], start: number, count: number): string {
+  return [...tokens.slice(0, start), ...tokens.slice(start + count)].join(' ');
+}
+
+function parseRestToSeconds(token: string): number | undefined {
+  let normalized = token.toLowerCase().endsWith('s') ? token.slice(0, -1) : token;
+  if (normalized.startsWith(':')) {
+    normalized = `0${normalized}`;
+  }
+  return parseTimeToSeconds(normalized);
+}
+
+function computeTotals(sets: SetInterval[], unit: DistanceUnit): WorkoutTotals {
+  let totalDistance = 0;
+  let estimatedDistance = 0;
   const distanceBySection: Record<SectionName, number> = {} as Record<SectionName, number>;
   const distanceByIntensity: Record<string, number> = {};
+  const distanceByZone: Record<string, number> = {};
+  const distanceByStroke: Record<string, number> = {};
+  const distanceByActivity: Record<string, number> = {};
 
   for (const set of sets) {
-    const distanceForSet = set.reps * set.distanceMeters;
+    const distanceForSet = set.reps * set.distance;
 
-    totalDistanceMeters += distanceForSet;
+    totalDistance += distanceForSet;
+    if (set.distanceEstimated) {
+      estimatedDistance += distanceForSet;
+    }
 
     const sectionKey = set.section;
     distanceBySection[sectionKey] = (distanceBySection[sectionKey] ?? 0) + distanceForSet;
 
     const intensityKey = set.intensity ?? 'unknown';
     distanceByIntensity[intensityKey] = (distanceByIntensity[intensityKey] ?? 0) + distanceForSet;
+
+    const zoneKey = set.zone ?? 'unknown';
+    distanceByZone[zoneKey] = (distanceByZone[zoneKey] ?? 0) + distanceForSet;
+
+    for (const [stroke, share] of Object.entries(splitDistanceByStroke(set))) {
+      distanceByStroke[stroke] = (distanceByStroke[stroke] ?? 0) + share;
+    }
+
+    const activityKey = activityOf(set);
+    distanceByActivity[activityKey] = (distanceByActivity[activityKey] ?? 0) + distanceForSet;
   }
 
-  return {
-    totalDistanceMeters,
+  const totals: WorkoutTotals = {
+    unit,
+    totalDistance,
+    totalDistanceMeters: Math.round(toMeters(totalDistance, unit)),
     distanceBySection,
     distanceByIntensity,
+    distanceByZone,
+    distanceByStroke,
+    distanceByActivity,
     estimatedMinutes: undefined
   };
+
+  if (estimatedDistance > 0) {
+    totals.estimatedDistanceMeters = Math.round(toMeters(estimatedDistance, unit));
+  }
+
+  return totals;
 }
 
-function estimateDurationMinutes(sets: SetInterval[], totalDistanceMeters: number): number | undefined {
-  if (sets.length === 0) {
+export function estimateDurationMinutes(allSets: SetInterval[], totalDistanceMeters: number): number | undefined {
+  if (allSets.length === 0) {
     return undefined;
   }
 
-  const setsWithSendOff = sets.filter((s) => s.sendOffSeconds !== undefined);
+  let durationSeconds = 0;
+  let durationDistanceMeters = 0;
+  for (const set of allSets) {
+    if (set.durationSeconds !== undefined) {
+      durationSeconds += set.reps * (set.sendOffSeconds ?? set.durationSeconds + (set.restSeconds ?? 0));
+      durationDistanceMeters += set.reps * set.distanceMeters;
+    }
+  }
+
+  const sets = allSets.filter((s) => s.durationSeconds === undefined);
+  const distanceMeters = totalDistanceMeters - durationDistanceMeters;
 
-  if (setsWithSendOff.length >= sets.length / 2) {
+  if (sets.length === 0) {
+    return durationSeconds / 60;
+  }
+
+  const timedSets = sets.filter(
+    (s) => s.sendOffSeconds !== undefined || s.restSeconds !== undefined
+  );
+
+  if (timedSets.length >= sets.length / 2) {
     let totalSeconds = 0;
-    for (const set of setsWithSendOff) {
+    for (const set of timedSets) {
       if (set.sendOffSeconds !== undefined) {
         totalSeconds += set.reps * set.sendOffSeconds;
+      } else if (set.restSeconds !== undefined) {
+        const swimSeconds = (set.distanceMeters / 100) * DEFAULT_PACE_SECONDS_PER_100;
+        totalSeconds += set.reps * (swimSeconds + set.restSeconds);
       }
     }
-    return totalSeconds / 60;
+    return (totalSeconds + durationSeconds) / 60;
   }
 
-  if (totalDistanceMeters <= 0) {
-    return undefined;
+  if (distanceMeters <= 0) {
+    return durationSeconds > 0 ? durationSeconds / 60 : undefined;
   }
 
-  const defaultPaceSecondsPer100 = 90;
-  const totalSeconds = (totalDistanceMeters / 100) * defaultPaceSecondsPer100;
-  return totalSeconds / 60;
+  const totalSeconds = (distanceMeters / 100) * DEFAULT_PACE_SECONDS_PER_100;
+  return (totalSeconds + durationSeconds) / 60;
 }
\ No newline at end of file
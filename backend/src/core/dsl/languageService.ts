@@ -0,0 +1,310 @@
+import { DistanceUnit, InterpretedWorkout, SectionName, SetInterval } from '../models/WorkoutTypes';
+import { estimateDurationMinutes, interpretShorthand } from './interpreter';
+import { formatSecondsAsTime } from './parseTime';
+import { knownSectionNames, normalizeSectionName } from './sections';
+import { KNOWN_STROKES, getStrokeDictionary } from './strokes';
+import { isEquipmentConnector, knownEquipment, knownModifiers } from './tags';
+import { getZoneModel } from './zones';
+
+const HEADER_KEYS = ['pool', 'duration', 'title', 'focus', 'profile', 'groups', 'base', 'let'];
+const POOL_SUGGESTIONS = ['25m', '25yd', '50m'];
+const SET_KEYWORDS = ['rest', 'desc', 'build', 'by', 'w/'];
+const SET_LINE_START_REGEX = /^\d/;
+const BLOCK_REPS_REGEX = /^\d+x$/i;
+
+export type CompletionKind =
+  | 'header'
+  | 'section'
+  | 'stroke'
+  | 'intensity'
+  | 'modifier'
+  | 'equipment'
+  | 'keyword'
+  | 'variable'
+  | 'value';
+
+export interface LanguagePosition {
+  lineNumber: number;
+  column: number;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  detail?: string;
+  insertText?: string;
+}
+
+export interface CompletionList {
+  lineNumber: number;
+  column: number;
+  endColumn: number;
+  items: CompletionItem[];
+}
+
+export interface HoverInfo {
+  lineNumber: number;
+  column: number;
+  endColumn: number;
+  contents: string[];
+}
+
+export interface DocumentSymbol {
+  name: SectionName;
+  lineNumber: number;
+  endLineNumber: number;
+  unit: DistanceUnit;
+  distance: number;
+  distanceMeters: number;
+  setCount: number;
+}
+
+export function getCompletions(text: string, position: LanguagePosition): CompletionList {
+  const lines = text.split(/\r?\n/);
+  const line = lines[position.lineNumber - 1] ?? '';
+  const cursor = clampColumn(line, position.column) - 1;
+  const prefix = line.slice(0, cursor);
+
+  const tokens = prefix.trimStart().split(/\s+/);
+  const word = tokens[tokens.length - 1];
+  const previous = tokens.slice(0, -1);
+  const wordColumn = cursor - word.length + 1;
+
+  const list = (items: CompletionItem[]): CompletionList => ({
+    lineNumber: position.lineNumber,
+    column: wordColumn,
+    endColumn: cursor + 1,
+    items: filterByPrefix(items, word)
+  });
+
+  if (prefix.trimStart().startsWith('#')) {
+    return list([]);
+  }
+
+  if (previous.length === 0) {
+    return list(SET_LINE_START_REGEX.test(word) ? [] : [...headerCompletions(), ...sectionCompletions()]);
+  }
+
+  const first = previous[0].toLowerCase();
+  if (HEADER_KEYS.includes(first)) {
+    return list(first === 'pool' && previous.length === 1 ? poolCompletions() : []);
+  }
+
+  if (!SET_LINE_START_REGEX.test(first) || BLOCK_REPS_REGEX.test(first)) {
+    return list([]);
+  }
+
+  if (word.startsWith('@')) {
+    return list(variableCompletions(text));
+  }
+
+  if (previous.length === 1) {
+    return list(strokeCompletions());
+  }
+
+  const last = previous[previous.length - 1].toLowerCase();
+  if (isEquipmentConnector(last)) {
+    return list(equipmentCompletions());
+  }
+  if (last === 'rest' || last === 'by') {
+    return list([]);
+  }
+
+  return list([...intensityCompletions(), ...modifierCompletions(), ...keywordCompletions()]);
+}
+
+export function getHover(text: string, position: LanguagePosition): HoverInfo | null {
+  const lines = text.split(/\r?\n/);
+  const line = lines[position.lineNumber - 1];
+  if (line === undefined || line.trim().length === 0) {
+    return null;
+  }
+
+  const interpreted = interpretShorthand(text);
+  const column = line.length - line.trimStart().length + 1;
+  const endColumn = line.trimEnd().length + 1;
+
+  const lineSets = interpreted.sets.filter((s) => s.lineNumber === position.lineNumber);
+  if (lineSets.length > 0) {
+    return {
+      lineNumber: position.lineNumber,
+      column,
+      endColumn,
+      contents: describeSets(lineSets, interpreted.unit)
+    };
+  }
+
+  const symbol = getDocumentSymbols(text, interpreted).find(
+    (s) => s.lineNumber === position.lineNumber
+  );
+  if (symbol) {
+    return {
+      lineNumber: position.lineNumber,
+      column,
+      endColumn,
+      contents: [
+        symbol.name,
+        `Total: ${symbol.distance}${symbol.unit}`,
+        `Sets: ${symbol.setCount}`
+      ]
+    };
+  }
+
+  return null;
+}
+
+export function getDocumentSymbols(
+  text: string,
+  interpreted: InterpretedWorkout = interpretShorthand(text)
+): DocumentSymbol[] {
+  const lines = text.split(/\r?\n/);
+  const linesWithErrors = new Set(interpreted.errors.map((e) => e.lineNumber));
+  const headerLineNumbers: number[] = [];
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.endsWith(':') && trimmed.length > 1 && !linesWithErrors.has(index + 1)) {
+      headerLineNumbers.push(index + 1);
+    }
+  });
+
+  const symbols: DocumentSymbol[] = [];
+  const firstSetLine = interpreted.sets.length > 0 ? interpreted.sets[0].lineNumber : undefined;
+
+  if (firstSetLine !== undefined && (headerLineNumbers.length === 0 || firstSetLine < headerLineNumbers[0])) {
+    const endLineNumber = headerLineNumbers.length > 0 ? headerLineNumbers[0] - 1 : lines.length;
+    symbols.push(
+      buildSymbol(interpreted.sets[0].section, firstSetLine, endLineNumber, interpreted)
+    );
+  }
+
+  headerLineNumbers.forEach((lineNumber, index) => {
+    const name = normalizeSectionName(lines[lineNumber - 1].trim().slice(0, -1));
+    const endLineNumber =
+      index + 1 < headerLineNumbers.length ? headerLineNumbers[index + 1] - 1 : lines.length;
+    symbols.push(buildSymbol(name, lineNumber, endLineNumber, interpreted));
+  });
+
+  return symbols.map((symbol) => ({
+    ...symbol,
+    endLineNumber: trimTrailingBlankLines(lines, symbol.lineNumber, symbol.endLineNumber)
+  }));
+}
+
+function buildSymbol(
+  name: SectionName,
+  lineNumber: number,
+  endLineNumber: number,
+  interpreted: InterpretedWorkout
+): DocumentSymbol {
+  const sets = interpreted.sets.filter(
+    (s) => s.lineNumber >= lineNumber && s.lineNumber <= endLineNumber
+  );
+
+  return {
+    name,
+    lineNumber,
+    endLineNumber,
+    unit: interpreted.unit,
+    distance: sets.reduce((sum, s) => sum + s.reps * s.distance, 0),
+    distanceMeters: Math.round(sets.reduce((sum, s) => sum + s.reps * s.distanceMeters, 0)),
+    setCount: sets.length
+  };
+}
+
+function trimTrailingBlankLines(lines: string[], start: number, end: number): number {
+  let last = end;
+  while (last > start && (lines[last - 1] ?? '').trim().length === 0) {
+    last -= 1;
+  }
+  return last;
+}
+
+function describeSets(sets: SetInterval[], unit: DistanceUnit): string[] {
+  const first = sets[0];
+  const distance = sets.reduce((sum, s) => sum + s.reps * s.distance, 0);
+  const distanceMeters = sets.reduce((sum, s) => sum + s.reps * s.distanceMeters, 0);
+  const minutes = estimateDurationMinutes(sets, distanceMeters);
+  const estimatedPrefix = sets.some((s) => s.distanceEstimated) ? '~' : '';
+
+  const contents = [`${first.stroke} · ${first.section}`, `Total: ${estimatedPrefix}${distance}${unit}`];
+
+  if (minutes !== undefined) {
+    contents.push(`Est. time: ${formatSecondsAsTime(Math.round(minutes * 60))}`);
+  }
+
+  if (first.zone) {
+    const zone = getZoneModel().zones.find((z) => z.id === first.zone);
+    contents.push(zone ? `Zone: ${zone.id} (${zone.label})` : `Zone: ${first.zone}`);
+  }
+
+  return contents;
+}
+
+function clampColumn(line: string, column: number): number {
+  if (!Number.isFinite(column) || column < 1) return 1;
+  return Math.min(Math.floor(column), line.length + 1);
+}
+
+function filterByPrefix(items: CompletionItem[], word: string): CompletionItem[] {
+  const lower = word.toLowerCase();
+  const seen = new Set<string>();
+
+  return items.filter((item) => {
+    const key = item.label.toLowerCase();
+    if (seen.has(key) || !key.startsWith(lower)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function headerCompletions(): CompletionItem[] {
+  return HEADER_KEYS.map((key) => ({ label: key, kind: 'header', insertText: `${key} ` }));
+}
+
+function sectionCompletions(): CompletionItem[] {
+  return knownSectionNames().map((name) => ({ label: name, kind: 'section', insertText: `${name}:` }));
+}
+
+function poolCompletions(): CompletionItem[] {
+  return POOL_SUGGESTIONS.map((value) => ({ label: value, kind: 'value' }));
+}
+
+function strokeCompletions(): CompletionItem[] {
+  const aliases = Object.entries(getStrokeDictionary().aliases).map(
+    ([alias, stroke]): CompletionItem => ({ label: alias, kind: 'stroke', detail: stroke })
+  );
+  return [...KNOWN_STROKES.map((stroke): CompletionItem => ({ label: stroke, kind: 'stroke' })), ...aliases];
+}
+
+function intensityCompletions(): CompletionItem[] {
+  const model = getZoneModel();
+  const zones = model.zones.map(
+    (zone): CompletionItem => ({ label: zone.id, kind: 'intensity', detail: zone.label })
+  );
+  const aliases = Object.entries(model.aliases).map(
+    ([alias, zone]): CompletionItem => ({ label: alias, kind: 'intensity', detail: zone })
+  );
+  return [...aliases, ...zones];
+}
+
+function modifierCompletions(): CompletionItem[] {
+  return knownModifiers().map((modifier) => ({ label: modifier, kind: 'modifier' }));
+}
+
+function equipmentCompletions(): CompletionItem[] {
+  return knownEquipment().map((equipment) => ({ label: equipment, kind: 'equipment' }));
+}
+
+function keywordCompletions(): CompletionItem[] {
+  return SET_KEYWORDS.map((keyword) => ({ label: keyword, kind: 'keyword' }));
+}
+
+function variableCompletions(text: string): CompletionItem[] {
+  const variables = interpretShorthand(text).header.variables ?? {};
+  return Object.entries(variables).map(([name, seconds]) => ({
+    label: `@${name}`,
+    kind: 'variable',
+    detail: formatSecondsAsTime(seconds)
+  }));
+}
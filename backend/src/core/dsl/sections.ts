@@ -0,0 +1,32 @@
+import { SectionName } from '../models/WorkoutTypes';
+
+const SECTION_ALIASES: Record<string, SectionName> = {
+  warmup: 'warmup',
+  'warm-up': 'warmup',
+  'warm up': 'warmup',
+  wu: 'warmup',
+  preset: 'pre-set',
+  'pre-set': 'pre-set',
+  'pre set': 'pre-set',
+  main: 'main',
+  'main set': 'main',
+  mainset: 'main',
+  postset: 'post-set',
+  'post-set': 'post-set',
+  'post set': 'post-set',
+  cooldown: 'cooldown',
+  'cool-down': 'cooldown',
+  'cool down': 'cooldown',
+  warmdown: 'cooldown',
+  'warm-down': 'cooldown',
+  cd: 'cooldown'
+};
+
+export function normalizeSectionName(name: string): SectionName {
+  const key = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  return SECTION_ALIASES[key] ?? key;
+}
+
+export function knownSectionNames(): SectionName[] {
+  return [...new Set(Object.values(SECTION_ALIASES))];
+}
@@ -0,0 +1,226 @@
+import fs from 'fs';
+import { Activity, SetInterval, Stroke, StrokeDictionary } from '../models/WorkoutTypes';
+
+const IM_ORDER: Stroke[] = ['FL', 'BK', 'BR', 'FR'];
+const ACTIVITY_STROKES: Record<string, Activity> = {
+  kick: 'kick',
+  pull: 'pull',
+  drill: 'drill'
+};
+
+export const KNOWN_STROKES: Stroke[] = ['FR', 'BK', 'BR', 'FL', 'IM', 'kick', 'drill', 'pull', 'choice'];
+
+export const UNSPECIFIED_STROKE = 'unspecified';
+
+const LOCALE_ALIASES: Record<string, Record<string, Stroke>> = {
+  en: {
+    free: 'FR',
+    freestyle: 'FR',
+    crawl: 'FR',
+    frontcrawl: 'FR',
+    back: 'BK',
+    backstroke: 'BK',
+    breast: 'BR',
+    breaststroke: 'BR',
+    fly: 'FL',
+    butterfly: 'FL',
+    medley: 'IM',
+    k: 'kick',
+    dr: 'drill',
+    pl: 'pull',
+    ch: 'choice',
+    any: 'choice'
+  },
+  fr: {
+    nl: 'FR',
+    'nage-libre': 'FR',
+    dos: 'BK',
+    brasse: 'BR',
+    pap: 'FL',
+    papillon: 'FL',
+    '4n': 'IM',
+    '4nages': 'IM',
+    jambes: 'kick',
+    jb: 'kick',
+    bras: 'pull',
+    educ: 'drill',
+    éduc: 'drill',
+    educatifs: 'drill',
+    éducatifs: 'drill',
+    choix: 'choice'
+  },
+  de: {
+    f: 'FR',
+    freistil: 'FR',
+    kraul: 'FR',
+    r: 'BK',
+    rücken: 'BK',
+    ruecken: 'BK',
+    b: 'BR',
+    brust: 'BR',
+    s: 'FL',
+    schmetterling: 'FL',
+    delfin: 'FL',
+    l: 'IM',
+    lagen: 'IM',
+    beine: 'kick',
+    arme: 'pull',
+    technik: 'drill',
+    wahl: 'choice'
+  }
+};
+
+const DEFAULT_LOCALES = ['en'];
+
+let activeDictionary: StrokeDictionary | undefined;
+
+export function getStrokeDictionary(): StrokeDictionary {
+  if (!activeDictionary) {
+    activeDictionary = mergeStrokeDictionary(loadDeploymentStrokeDictionary());
+  }
+  return activeDictionary;
+}
+
+export function configureStrokeDictionary(overrides: Partial<StrokeDictionary>): StrokeDictionary {
+  activeDictionary = mergeStrokeDictionary(overrides);
+  return activeDictionary;
+}
+
+export function resolveStroke(token: string): Stroke | undefined {
+  const lower = token.toLowerCase();
+  const canonical = KNOWN_STROKES.find((s) => s.toLowerCase() === lower);
+  return canonical ?? getStrokeDictionary().aliases[lower];
+}
+
+export function isKnownStroke(token: string): boolean {
+  return resolveStroke(token) !== undefined;
+}
+
+export function knownStrokeTokens(): string[] {
+  return [...KNOWN_STROKES, ...Object.keys(getStrokeDictionary().aliases)];
+}
+
+export function normalizeStrokeToken(token: string): Stroke {
+  return token
+    .split('/')
+    .map((part) => resolveStroke(part) ?? part)
+    .join('/');
+}
+
+export function activityOf(set: SetInterval): Activity {
+  const fromStroke = ACTIVITY_STROKES[set.stroke.toLowerCase()];
+  if (fromStroke) return fromStroke;
+
+  for (const modifier of set.modifiers ?? []) {
+    const fromModifier = ACTIVITY_STROKES[modifier];
+    if (fromModifier) return fromModifier;
+  }
+
+  return 'swim';
+}
+
+export function splitDistanceByStroke(set: SetInterval): Record<string, number> {
+  const shares: Record<string, number> = {};
+  const strokes = strokesOf(set);
+
+  const addShare = (stroke: Stroke, distance: number) => {
+    if (stroke === 'IM') {
+      for (const imStroke of IM_ORDER) {
+        shares[imStroke] = (shares[imStroke] ?? 0) + distance / IM_ORDER.length;
+      }
+      return;
+    }
+    shares[stroke] = (shares[stroke] ?? 0) + distance;
+  };
+
+  const split = set.strokeSplitDistance;
+
+  if (strokes.length > 1 && split && split > 0) {
+    let remaining = set.distance;
+    let index = 0;
+    while (remaining > 0) {
+      const segment = Math.min(split, remaining);
+      addShare(strokes[index % strokes.length], segment);
+      remaining -= segment;
+      index += 1;
+    }
+  } else {
+    for (const stroke of strokes) {
+      addShare(stroke, set.distance / strokes.length);
+    }
+  }
+
+  for (const key of Object.keys(shares)) {
+    shares[key] *= set.reps;
+  }
+
+  return shares;
+}
+
+function strokesOf(set: SetInterval): Stroke[] {
+  if (ACTIVITY_STROKES[set.stroke.toLowerCase()]) {
+    return [UNSPECIFIED_STROKE];
+  }
+  return set.stroke.split('/').filter((s) => s.length > 0);
+}
+
+export function extractStrokeSplit(line: string): { line: string; splitDistance?: number } {
+  const tokens = line.split(/\s+/);
+
+  for (let i = 2; i < tokens.length - 1; i += 1) {
+    if (tokens[i].toLowerCase() !== 'by' || !/^\d+$/.test(tokens[i + 1])) continue;
+
+    return {
+      line: [...tokens.slice(0, i), ...tokens.slice(i + 2)].join(' '),
+      splitDistance: Number.parseInt(tokens[i + 1], 10)
+    };
+  }
+
+  return { line };
+}
+
+function mergeStrokeDictionary(overrides: Partial<StrokeDictionary>): StrokeDictionary {
+  const locales = overrides.locales ?? DEFAULT_LOCALES;
+  const aliases: Record<string, Stroke> = {};
+
+  for (const locale of locales) {
+    const table = LOCALE_ALIASES[locale.toLowerCase()];
+    if (!table) {
+      console.error(`[strokes] Unknown stroke locale "${locale}".`);
+      continue;
+    }
+    Object.assign(aliases, table);
+  }
+
+  for (const [token, stroke] of Object.entries(overrides.aliases ?? {})) {
+    aliases[token.toLowerCase()] = stroke;
+  }
+
+  return { locales, aliases };
+}
+
+function loadDeploymentStrokeDictionary(): Partial<StrokeDictionary> {
+  const dictionary = loadStrokeDictionaryFile();
+  const locales = process.env.SWIMSET_STROKE_LOCALES;
+
+  if (locales) {
+    dictionary.locales = locales
+      .split(',')
+      .map((locale) => locale.trim())
+      .filter((locale) => locale.length > 0);
+  }
+
+  return dictionary;
+}
+
+function loadStrokeDictionaryFile(): Partial<StrokeDictionary> {
+  const path = process.env.SWIMSET_STROKE_DICTIONARY_FILE;
+  if (!path) return {};
+
+  try {
+    return JSON.parse(fs.readFileSync(path, 'utf8')) as Partial<StrokeDictionary>;
+  } catch (err) {
+    console.error(`[strokes] Failed to load stroke dictionary from ${path}:`, err);
+    return {};
+  }
+}
@@ -0,0 +1,122 @@
+import { Equipment, Modifier } from '../models/WorkoutTypes';
+
+const EQUIPMENT_ALIASES: Record<string, Equipment> = {
+  fins: 'fins',
+  fin: 'fins',
+  flippers: 'fins',
+  paddles: 'paddles',
+  paddle: 'paddles',
+  buoy: 'buoy',
+  pullbuoy: 'buoy',
+  'pull-buoy': 'buoy',
+  snorkel: 'snorkel',
+  snork: 'snorkel',
+  board: 'board',
+  kickboard: 'board',
+  band: 'band',
+  strap: 'band'
+};
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  pull: 'pull',
+  kick: 'kick',
+  drill: 'drill',
+  swim: 'swim',
+  underwater: 'underwater',
+  uw: 'underwater',
+  'no-breath': 'no-breath',
+  nobreath: 'no-breath',
+  nb: 'no-breath',
+  hypoxic: 'hypoxic',
+  'max-distance': 'max-distance'
+};
+
+const BREATHING_PATTERN_REGEX = /^b\d+(?:\/\d+)*$/i;
+const EQUIPMENT_CONNECTORS = new Set(['w/', 'with', '+', '&', 'and']);
+
+export function normalizeEquipment(token: string): Equipment | undefined {
+  return EQUIPMENT_ALIASES[token.toLowerCase()];
+}
+
+export function knownEquipment(): Equipment[] {
+  return [...new Set(Object.values(EQUIPMENT_ALIASES))];
+}
+
+export function knownModifiers(): Modifier[] {
+  return [...new Set(Object.values(MODIFIER_ALIASES))];
+}
+
+export function isEquipmentConnector(token: string): boolean {
+  return EQUIPMENT_CONNECTORS.has(token.toLowerCase());
+}
+
+export function normalizeModifier(token: string): Modifier | undefined {
+  if (BREATHING_PATTERN_REGEX.test(token)) {
+    return token.toLowerCase();
+  }
+  return MODIFIER_ALIASES[token.toLowerCase()];
+}
+
+export function extractTags(line: string): {
+  line: string;
+  equipment: Equipment[];
+  modifiers: Modifier[];
+} {
+  const tokens = line.split(/\s+/);
+  const kept = tokens.slice(0, 2);
+  const equipment: Equipment[] = [];
+  const modifiers: Modifier[] = [];
+
+  // Only the explicit "w/" form accepts unknown equipment names; after "and",
+  // "&", "+" or "with" the next word must be known equipment, so prose like
+  // "fast and smooth" stays out of the checklist.
+  let openEquipment = false;
+  let pendingConnector: string | undefined;
+
+  for (const rawToken of tokens.slice(2)) {
+    let token = rawToken.replace(/,$/, '');
+    const lower = token.toLowerCase();
+
+    if (EQUIPMENT_CONNECTORS.has(lower)) {
+      if (pendingConnector) kept.push(pendingConnector);
+      openEquipment = lower === 'w/';
+      pendingConnector = openEquipment ? undefined : rawToken;
+      continue;
+    }
+
+    if (lower.startsWith('w/') && lower.length > 2) {
+      token = token.slice(2);
+      openEquipment = true;
+    }
+
+    const knownEquipment = normalizeEquipment(token);
+    const modifier = knownEquipment ? undefined : normalizeModifier(token);
+
+    if (pendingConnector && !knownEquipment) {
+      kept.push(pendingConnector);
+    }
+    pendingConnector = undefined;
+
+    if (knownEquipment) {
+      pushUnique(equipment, knownEquipment);
+    } else if (modifier) {
+      pushUnique(modifiers, modifier);
+    } else if (openEquipment && /^[a-z][a-z-]*$/i.test(token)) {
+      pushUnique(equipment, token.toLowerCase());
+    } else {
+      kept.push(rawToken);
+    }
+
+    openEquipment = false;
+  }
+
+  if (pendingConnector) kept.push(pendingConnector);
+
+  return { line: kept.join(' '), equipment, modifiers };
+}
+
+function pushUnique<T>(list: T[], value: T): void {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+}
@@ -0,0 +1,37 @@
+import { DistanceUnit } from '../models/WorkoutTypes';
+
+export const METERS_PER_YARD = 0.9144;
+
+const UNIT_ALIASES: Record<string, DistanceUnit> = {
+  m: 'm',
+  meter: 'm',
+  meters: 'm',
+  scm: 'm',
+  lcm: 'm',
+  y: 'yd',
+  yd: 'yd',
+  yds: 'yd',
+  yard: 'yd',
+  yards: 'yd',
+  scy: 'yd'
+};
+
+export function parseDistanceUnit(input: string | undefined | null): DistanceUnit | undefined {
+  if (!input) return undefined;
+  return UNIT_ALIASES[input.trim().toLowerCase()];
+}
+
+// Unrounded so per-set meters add up to the totals; round only for display.
+export function toMeters(distance: number, unit: DistanceUnit): number {
+  if (unit === 'yd') {
+    return distance * METERS_PER_YARD;
+  }
+  return distance;
+}
+
+export function fromMeters(meters: number, unit: DistanceUnit): number {
+  if (unit === 'yd') {
+    return Math.round(meters / METERS_PER_YARD);
+  }
+  return meters;
+}
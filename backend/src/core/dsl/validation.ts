@@ -0,0 +1,82 @@
+import { Diagnostic, SetInterval, WorkoutHeader } from '../models/WorkoutTypes';
+import { createDiagnostic } from './diagnostics';
+import { formatSecondsAsTime } from './parseTime';
+
+const FASTEST_PLAUSIBLE_SECONDS_PER_100M = 45;
+const SLOWEST_PLAUSIBLE_SECONDS_PER_100M = 360;
+
+export function validateAgainstPool(
+  sets: SetInterval[],
+  header: WorkoutHeader,
+  lines: string[]
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  if (sets.length > 0 && header.poolLength === undefined) {
+    diagnostics.push(
+      createDiagnostic({
+        code: 'missing-pool',
+        severity: 'warning',
+        message: 'No pool length declared; distances cannot be checked against the pool.',
+        lineNumber: 1,
+        suggestion: { message: 'Declare the pool, e.g. "pool 25m".', replacement: 'pool 25m' }
+      })
+    );
+  }
+
+  for (const set of sets) {
+    const key = `${set.lineNumber}:${set.distance}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const line = lines[set.lineNumber - 1];
+
+    if (header.poolLength && set.distance > 0 && set.distance % header.poolLength !== 0) {
+      const pool = header.poolLength;
+      const nearest = Math.max(pool, Math.round(set.distance / pool) * pool);
+      diagnostics.push(
+        createDiagnostic({
+          code: 'off-pool-distance',
+          severity: 'warning',
+          message: `${set.distance}${set.unit} is not a whole number of lengths in a ${pool}${set.unit} pool.`,
+          lineNumber: set.lineNumber,
+          line,
+          token: `${set.distance}`,
+          suggestion: { message: `Did you mean ${nearest}?`, replacement: `${nearest}` }
+        })
+      );
+    }
+
+    if (set.sendOffSeconds !== undefined && set.distanceMeters > 0) {
+      const secondsPer100 = (set.sendOffSeconds / set.distanceMeters) * 100;
+      const sendOff = formatSecondsAsTime(set.sendOffSeconds) ?? '';
+
+      if (secondsPer100 < FASTEST_PLAUSIBLE_SECONDS_PER_100M) {
+        diagnostics.push(
+          createDiagnostic({
+            code: 'implausible-send-off',
+            severity: 'warning',
+            message: `Send-off @${sendOff} on a ${set.distance}${set.unit} is faster than any swimmer can hold.`,
+            lineNumber: set.lineNumber,
+            line,
+            token: '@'
+          })
+        );
+      } else if (secondsPer100 > SLOWEST_PLAUSIBLE_SECONDS_PER_100M) {
+        diagnostics.push(
+          createDiagnostic({
+            code: 'implausible-send-off',
+            severity: 'warning',
+            message: `Send-off @${sendOff} on a ${set.distance}${set.unit} leaves an unusually long interval.`,
+            lineNumber: set.lineNumber,
+            line,
+            token: '@'
+          })
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
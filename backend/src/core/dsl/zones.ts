@@ -0,0 +1,113 @@
+import fs from 'fs';
+import { ZoneDefinition, ZoneId, ZoneModel } from '../models/WorkoutTypes';
+
+const DEFAULT_ZONES: ZoneDefinition[] = [
+  { id: 'REC', label: 'Recovery', rpe: { min: 1, max: 2 }, heartRate: { min: 0, max: 129 } },
+  { id: 'EN1', label: 'Aerobic endurance', rpe: { min: 3, max: 4 }, heartRate: { min: 130, max: 149 } },
+  { id: 'EN2', label: 'Threshold endurance', rpe: { min: 5, max: 6 }, heartRate: { min: 150, max: 164 } },
+  { id: 'EN3', label: 'Overload endurance', rpe: { min: 7, max: 7 }, heartRate: { min: 165, max: 174 } },
+  { id: 'SP1', label: 'Lactate tolerance', rpe: { min: 8, max: 8 }, heartRate: { min: 175, max: 184 } },
+  { id: 'SP2', label: 'Lactate production', rpe: { min: 9, max: 9 }, heartRate: { min: 185, max: 250 } },
+  { id: 'SP3', label: 'Power / sprint', rpe: { min: 10, max: 10 } }
+];
+
+const DEFAULT_ALIASES: Record<string, ZoneId> = {
+  easy: 'REC',
+  recovery: 'REC',
+  rec: 'REC',
+  loose: 'REC',
+  aerobic: 'EN1',
+  steady: 'EN1',
+  moderate: 'EN1',
+  mod: 'EN1',
+  smooth: 'EN1',
+  thresh: 'EN2',
+  threshold: 'EN2',
+  css: 'EN2',
+  strong: 'EN2',
+  hard: 'EN3',
+  vo2: 'EN3',
+  fast: 'SP1',
+  race: 'SP1',
+  'race-pace': 'SP1',
+  racepace: 'SP1',
+  max: 'SP2',
+  sprint: 'SP3',
+  'all-out': 'SP3',
+  allout: 'SP3'
+};
+
+const RPE_REGEX = /^rpe-?(\d{1,2})$/i;
+const HEART_RATE_REGEX = /^(?:hr-?(\d{2,3})|(\d{2,3})bpm)$/i;
+
+let activeModel: ZoneModel | undefined;
+
+export function getZoneModel(): ZoneModel {
+  if (!activeModel) {
+    activeModel = mergeZoneModel(loadDeploymentZoneModel());
+  }
+  return activeModel;
+}
+
+export function configureZoneModel(overrides: Partial<ZoneModel>): ZoneModel {
+  activeModel = mergeZoneModel(overrides);
+  return activeModel;
+}
+
+export function resolveZone(token: string | undefined): ZoneId | undefined {
+  if (!token) return undefined;
+
+  const model = getZoneModel();
+  const lower = token.toLowerCase();
+
+  const direct = model.zones.find((zone) => zone.id.toLowerCase() === lower);
+  if (direct) return direct.id;
+
+  const alias = model.aliases[lower];
+  if (alias) return alias;
+
+  const rpeMatch = token.match(RPE_REGEX);
+  if (rpeMatch) {
+    const rpe = Number.parseInt(rpeMatch[1], 10);
+    return model.zones.find((zone) => zone.rpe && rpe >= zone.rpe.min && rpe <= zone.rpe.max)?.id;
+  }
+
+  const heartRateMatch = token.match(HEART_RATE_REGEX);
+  if (heartRateMatch) {
+    const bpm = Number.parseInt(heartRateMatch[1] ?? heartRateMatch[2], 10);
+    return model.zones.find(
+      (zone) => zone.heartRate && bpm >= zone.heartRate.min && bpm <= zone.heartRate.max
+    )?.id;
+  }
+
+  return undefined;
+}
+
+export function knownIntensityTokens(): string[] {
+  const model = getZoneModel();
+  return [...model.zones.map((zone) => zone.id), ...Object.keys(model.aliases)];
+}
+
+function mergeZoneModel(overrides: Partial<ZoneModel>): ZoneModel {
+  const aliases: Record<string, ZoneId> = {};
+  for (const [token, zone] of Object.entries({ ...DEFAULT_ALIASES, ...(overrides.aliases ?? {}) })) {
+    aliases[token.toLowerCase()] = zone;
+  }
+
+  return {
+    zones: overrides.zones ?? DEFAULT_ZONES,
+    aliases
+  };
+}
+
+function loadDeploymentZoneModel(): Partial<ZoneModel> {
+  const path = process.env.SWIMSET_ZONE_MODEL_FILE;
+  if (!path) return {};
+
+  try {
+    return JSON.parse(fs.readFileSync(path, 'utf8')) as Partial<ZoneModel>;
+  } catch (err) {
+    console.error(`[zones] Failed to load zone model from ${path}:`, err);
+    return {};
+  }
+}
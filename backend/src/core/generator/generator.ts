@@ -1,71 +1,433 @@
-export type Focus = 'aerobic' | 'threshold' | 'sprint' | 'technique';
-export type Profile = 'novice' | 'intermediate' | 'elite';
-
-export interface GenerateConstraints {
-  poolLengthMeters: number;
-  targetDistanceMeters?: number;
-  targetDurationMinutes?: number;
-  focus: Focus;
-  profile: Profile;
-  title?: string;
-}
+import {
+  DistanceUnit,
+  Equipment,
+  Focus,
+  GenerateConstraints,
+  InterpretedWorkout,
+  Profile,
+  SectionName,
+  SetInterval,
+  Stroke,
+  ZoneId
+} from '../models/WorkoutTypes';
+import { fromMeters, toMeters } from '../dsl/units';
+import { DEFAULT_PACE_SECONDS_PER_100, interpretShorthand } from '../dsl/interpreter';
+import { formatSecondsAsTime } from '../dsl/parseTime';
+import { resolveStroke } from '../dsl/strokes';
+import { getZoneModel } from '../dsl/zones';
 
 interface TemplateLine {
   section: 'warmup' | 'preset' | 'main' | 'cooldown';
   baseReps: number;
   distance: number;
   stroke: string;
-  sendOff?: string;
-  intensity?: string;
+  equipment?: Equipment[];
+  // 'sendoff' lines get a send-off derived from the swimmer's pace; anything
+  // else swims on a fixed rest.
+  interval?: 'sendoff' | 'rest';
+  // Explicit intervals from a stored template, used as written.
+  sendOffSeconds?: number;
+  restSeconds?: number;
+  intensity?: ZoneId;
+  progression?: 'build' | 'desc';
   comment?: string;
 }
 
+export interface DistanceFit {
+  requestedMeters: number;
+  reachableMeters: number;
+  achievedMeters: number;
+  differenceMeters: number;
+  toleranceMeters: number;
+  withinTolerance: boolean;
+}
+
+export interface DurationFit {
+  requestedMinutes: number;
+  achievedMinutes: number;
+  differenceMinutes: number;
+  withinBudget: boolean;
+}
+
+export type ConstraintKind = 'distance' | 'duration';
+
+export type Variation = Record<TemplateSection, string>;
+
+export type PaceSource = 'css' | 'base-pace' | 'profile';
+
+export interface PaceSummary {
+  cssPer100Seconds: number;
+  source: PaceSource;
+  plannedMinutes: number;
+  estimatedMinutes: number;
+}
+
+export interface RaceEvent {
+  distance: number;
+  stroke: Stroke;
+}
+
+export interface Substitution {
+  section: TemplateSection;
+  original: string;
+  replacement: string | null;
+  reason: string;
+}
+
+export interface ShareRange {
+  min: number;
+  max: number;
+}
+
+export interface EnergySystemShare {
+  zone: string;
+  label: string;
+  distanceMeters: number;
+  share: number;
+}
+
+export interface SectionExplanation {
+  section: TemplateSection;
+  block: string;
+  purpose: string;
+  energySystems: EnergySystemShare[];
+  scaling: string;
+  distanceMeters: number;
+  share: number;
+  guidance: ShareRange;
+  withinGuidance: boolean;
+  cues: string[];
+}
+
+export interface GeneratedWorkout {
+  dsl: string;
+  interpreted: InterpretedWorkout;
+  seed: number;
+  variation: Variation;
+  pace: PaceSummary;
+  event?: RaceEvent;
+  substitutions: Substitution[];
+  explanation: SectionExplanation[];
+  warnings: string[];
+  distance?: DistanceFit;
+  duration?: DurationFit;
+  binding: {
+    constraint: ConstraintKind;
+    explanation: string;
+  };
+}
+
+interface PlannedLine {
+  line: TemplateLine;
+  reps: number;
+  distance: number;
+}
+
+interface PlanMove {
+  index: number;
+  planned: PlannedLine;
+}
+
+interface LineInterval {
+  sendOffSeconds?: number;
+  restSeconds?: number;
+}
+
+interface EquipmentFallback {
+  line: TemplateLine | null;
+  reason: string;
+}
+
+interface SetBlock {
+  name: string;
+  lines: TemplateLine[];
+}
+
+export interface UserTemplate {
+  name: string;
+  workout: InterpretedWorkout;
+}
+
+type TemplateSection = TemplateLine['section'];
+
+const SECTION_ORDER: TemplateSection[] = ['warmup', 'preset', 'main', 'cooldown'];
+
+const TEMPLATE_SECTIONS: Record<string, TemplateSection> = {
+  warmup: 'warmup',
+  'pre-set': 'preset',
+  main: 'main',
+  'post-set': 'cooldown',
+  cooldown: 'cooldown'
+};
+
+const SECTION_SHARE_BOUNDS: Record<TemplateSection, ShareRange> = {
+  warmup: { min: 0.1, max: 0.35 },
+  preset: { min: 0.05, max: 0.3 },
+  main: { min: 0.3, max: 0.7 },
+  cooldown: { min: 0.03, max: 0.2 }
+};
+
+const PROFILE_SECTION_GUIDANCE: Record<Profile, Record<TemplateSection, ShareRange>> = {
+  novice: {
+    warmup: { min: 0.2, max: 0.35 },
+    preset: { min: 0.1, max: 0.25 },
+    main: { min: 0.3, max: 0.5 },
+    cooldown: { min: 0.1, max: 0.2 }
+  },
+  intermediate: {
+    warmup: { min: 0.15, max: 0.3 },
+    preset: { min: 0.1, max: 0.25 },
+    main: { min: 0.35, max: 0.6 },
+    cooldown: { min: 0.05, max: 0.15 }
+  },
+  elite: {
+    warmup: { min: 0.15, max: 0.25 },
+    preset: { min: 0.1, max: 0.2 },
+    main: { min: 0.45, max: 0.65 },
+    cooldown: { min: 0.05, max: 0.1 }
+  }
+};
+
+const SECTION_PURPOSE: Record<Exclude<TemplateSection, 'main'>, string> = {
+  warmup: 'Raise heart rate and body temperature gradually and rehearse technique before harder work.',
+  preset: 'Bridge into the main set by activating kick and pull and sharpening the skills it relies on.',
+  cooldown: 'Flush fatigue and bring the heart rate down with easy swimming.'
+};
+
+const MAIN_SET_PURPOSE: Record<Focus, string> = {
+  aerobic: 'Build aerobic capacity with steady repeats on short rest.',
+  threshold: 'Raise lactate threshold by holding strong pace on controlled rest.',
+  sprint: 'Develop speed and power with short, fast efforts and generous recovery.',
+  technique: 'Groove efficient mechanics with drills and controlled swimming.',
+  backstroke: 'Build backstroke-specific endurance and speed.',
+  breaststroke: 'Build breaststroke timing, pullouts and stroke-specific speed.',
+  butterfly: 'Build butterfly rhythm and endurance without letting the stroke fall apart.',
+  im: 'Develop all four strokes and fast transitions between them.',
+  'distance-free': 'Build freestyle endurance and pace control over longer repeats.',
+  'race-pace': 'Rehearse goal race pace and tempo under race-like fatigue.',
+  recovery: 'Keep moving at low intensity to promote recovery.'
+};
+
+const MAX_REPS_FACTOR = 3;
+const MAX_SOLVER_STEPS = 500;
+const OVER_BUDGET_PENALTY = 1e6;
+const DEFAULT_REST_SECONDS = 20;
+const MAX_SEED = 2 ** 31;
+const MAX_VARIATION_COMBINATIONS = 1024;
+const SEND_OFF_ROUNDING_SECONDS = 5;
+const TIMING_MISMATCH_MINUTES = 1;
+
+const RACE_EVENT_REGEX = /^(\d+)\s*([^\d\s]+)$/;
+const RACE_STROKES: Stroke[] = ['FR', 'BK', 'BR', 'FL', 'IM'];
+const RACE_DISTANCES = [50, 100, 200, 400, 500, 800, 1000, 1500, 1650];
+const RACE_REP_DISTANCES = [25, 50, 75, 100, 150, 200, 300, 400, 500, 800, 1000];
+const RACE_REP_MIN_FRACTION = 1 / 8;
+const EVENT_SWIM_STROKES: Stroke[] = ['FR', 'BK', 'BR', 'FL', 'IM', 'choice'];
+const MIN_IM_DISTANCE = 100;
+const CROWDED_LANE_LIMIT = 2;
+
+const EQUIPMENT_FALLBACKS: Record<
+  string,
+  (line: TemplateLine, available: Equipment[]) => EquipmentFallback
+> = {
+  board: (line) => ({
+    line: {
+      ...withoutEquipment(line, 'board'),
+      comment: line.stroke === 'kick' ? 'Kick on your back, arms in streamline' : line.comment
+    },
+    reason: 'No kickboards: kick on your back instead.'
+  }),
+  buoy: (line, available) =>
+    available.includes('band')
+      ? {
+          line: { ...withoutEquipment(line, 'buoy'), equipment: [...(line.equipment ?? []), 'band'] },
+          reason: 'No pull buoys: pull with an ankle band instead.'
+        }
+      : {
+          line: {
+            ...withoutEquipment(line, 'buoy'),
+            stroke: line.stroke === 'pull' ? 'FR' : line.stroke,
+            comment:
+              line.stroke === 'pull' ? 'Swim with long strokes, count strokes per length' : line.comment
+          },
+          reason: 'No pull buoys: swim the set instead.'
+        },
+  fins: (line) => ({ line: withoutEquipment(line, 'fins'), reason: 'No fins: kick without them.' }),
+  paddles: (line) => ({
+    line: withoutEquipment(line, 'paddles'),
+    reason: 'No paddles: pull without them.'
+  }),
+  snorkel: (line) =>
+    line.stroke === 'drill'
+      ? { line: null, reason: 'No snorkels: snorkel drill dropped.' }
+      : { line: withoutEquipment(line, 'snorkel'), reason: 'No snorkels: swim without one.' }
+};
+
+const PROFILE_CSS_SECONDS: Record<Profile, number> = {
+  novice: 120,
+  intermediate: 85,
+  elite: 70
+};
+
+const ZONE_PACING: Record<string, { paceOffset: number; restRatio: number }> = {
+  REC: { paceOffset: 20, restRatio: 0.2 },
+  EN1: { paceOffset: 8, restRatio: 0.1 },
+  EN2: { paceOffset: 0, restRatio: 0.15 },
+  EN3: { paceOffset: -3, restRatio: 0.3 },
+  SP1: { paceOffset: -6, restRatio: 0.6 },
+  SP2: { paceOffset: -8, restRatio: 1.0 },
+  SP3: { paceOffset: -10, restRatio: 1.5 }
+};
+
+const STROKE_PACE_FACTORS: Record<string, number> = {
+  FR: 1,
+  pull: 1,
+  choice: 1.05,
+  BK: 1.1,
+  FL: 1.15,
+  IM: 1.15,
+  drill: 1.2,
+  BR: 1.25,
+  kick: 1.35
+};
+
 export function generateWorkoutDSL(goal: GenerateConstraints): string {
-  const pool = goal.poolLengthMeters;
+  return generateWorkout(goal).dsl;
+}
+
+export function generateWorkout(goal: GenerateConstraints): GeneratedWorkout {
+  const [workout] = generateWorkoutCandidates(goal, 1);
+  return workout;
+}
+
+export function generateWorkoutCandidates(
+  goal: GenerateConstraints,
+  count: number,
+  userTemplate?: UserTemplate,
+  taggedTemplates: UserTemplate[] = []
+): GeneratedWorkout[] {
+  const seed = goal.seed ?? Math.floor(Math.random() * MAX_SEED);
+  const choices = blockChoices(goal.focus, userTemplate, taggedTemplates);
+  const selections = selectVariations(choices, createRandom(seed), count);
+
+  return selections.map((selection) => {
+    const blocks = SECTION_ORDER.map((section, index) => choices[section][selection[index]]);
+    const variation = {} as Variation;
+    SECTION_ORDER.forEach((section, index) => {
+      variation[section] = blocks[index].name;
+    });
+
+    return buildWorkout(
+      goal,
+      blocks.flatMap((block) => block.lines),
+      seed,
+      variation
+    );
+  });
+}
+
+function buildWorkout(
+  goal: GenerateConstraints,
+  blockLines: TemplateLine[],
+  seed: number,
+  variation: Variation
+): GeneratedWorkout {
+  const pool = goal.poolLength;
+  const unit: DistanceUnit = goal.poolUnit ?? 'm';
+
+  const event = goal.targetEvent ? parseRaceEvent(goal.targetEvent) : undefined;
+  const eventLines = event ? blockLines.map((line) => biasForEvent(line, event)) : blockLines;
+  const { lines: template, substitutions } = adaptToFacility(eventLines, goal);
+
+  const { cssPer100Seconds, source } = resolvePace(goal);
+  const paceClock = goal.paceClock ?? true;
+  const intervalFor = (planned: PlannedLine) =>
+    lineInterval(planned, cssPer100Seconds, unit, paceClock);
 
-  const template = TEMPLATES[goal.focus];
   const baseTotal = computeTemplateDistance(template, pool);
 
-  const targetTotal = chooseTargetDistance(goal, baseTotal);
-  const scale = targetTotal / baseTotal;
+  const hasDistanceTarget = goal.targetDistanceMeters !== undefined || !goal.targetDurationMinutes;
+  const targetTotal = chooseTargetDistance(goal, baseTotal, unit, pool);
+  const targetSeconds = goal.targetDurationMinutes ? goal.targetDurationMinutes * 60 : undefined;
+
+  const measureSeconds = (planned: PlannedLine) => lineSeconds(planned, unit, intervalFor(planned));
+  const distancePlan = hasDistanceTarget
+    ? solvePlan(template, pool, targetTotal, lineDistance)
+    : undefined;
+  const distancePlanSeconds = distancePlan ? measurePlan(distancePlan, measureSeconds) : undefined;
+
+  const binding: ConstraintKind =
+    targetSeconds !== undefined &&
+    (distancePlanSeconds === undefined || distancePlanSeconds > targetSeconds)
+      ? 'duration'
+      : 'distance';
 
-  const sections: Record<'warmup' | 'preset' | 'main' | 'cooldown', string[]> = {
+  const plan =
+    binding === 'duration' || !distancePlan
+      ? solvePlan(template, pool, targetSeconds ?? 0, measureSeconds, true)
+      : distancePlan;
+
+  const sections: Record<TemplateSection, string[]> = {
     warmup: [],
     preset: [],
     main: [],
     cooldown: []
   };
 
-  for (const line of template) {
+  for (const planned of plan) {
+    const { line, reps, distance } = planned;
     const sectionLines = sections[line.section];
 
     if (line.comment) {
       sectionLines.push(`# ${line.comment}`);
     }
 
-    const effectiveDistance = normalizeToPool(line.distance, pool);
-
-    let scaledReps = Math.round(line.baseReps * scale);
-    if (scaledReps < 1) scaledReps = 1;
-
-    const maxReps = line.baseReps * 3;
-    if (scaledReps > maxReps) scaledReps = maxReps;
-
+    const { sendOffSeconds, restSeconds } = intervalFor(planned);
     const dsl = buildSetLine(
-      scaledReps,
-      effectiveDistance,
+      reps,
+      distance,
       line.stroke,
-      line.sendOff,
-      line.intensity
+      formatSecondsAsTime(sendOffSeconds),
+      formatSecondsAsTime(restSeconds),
+      line.intensity,
+      line.progression,
+      line.equipment
     );
 
+    if (!paceClock && line.interval === 'sendoff') {
+      const clocked = lineInterval(planned, cssPer100Seconds, unit, true);
+      substitutions.push({
+        section: line.section,
+        original: buildSetLine(
+          reps,
+          distance,
+          line.stroke,
+          formatSecondsAsTime(clocked.sendOffSeconds)
+        ),
+        replacement: buildSetLine(
+          reps,
+          distance,
+          line.stroke,
+          undefined,
+          formatSecondsAsTime(restSeconds)
+        ),
+        reason: 'No pace clock: send-off replaced with a rest interval.'
+      });
+    }
+
     sectionLines.push(dsl);
   }
 
+  const plannedMinutes = measurePlan(plan, measureSeconds) / 60;
+
+  // When distance binds, the session can run well under the budget; the header
+  // carries the planned time so the interpreter doesn't flag a mismatch.
   const lines: string[] = [];
-  lines.push(`pool ${pool}m`);
+  lines.push(`pool ${pool}${unit}`);
   if (goal.targetDurationMinutes) {
-    lines.push(`duration ${goal.targetDurationMinutes}min`);
+    const headerMinutes =
+      binding === 'duration' ? goal.targetDurationMinutes : Math.max(1, Math.round(plannedMinutes));
+    lines.push(`duration ${headerMinutes}min`);
   }
   if (goal.title) {
     lines.push(`title ${goal.title}`);
@@ -74,9 +436,7 @@ export function generateWorkoutDSL(goal: GenerateConstraints): string {
   lines.push(`profile ${goal.profile}`);
   lines.push('');
 
-  const order: Array<keyof typeof sections> = ['warmup', 'preset', 'main', 'cooldown'];
-
-  for (const sectionName of order) {
+  for (const sectionName of SECTION_ORDER) {
     const content = sections[sectionName];
     if (!content || content.length === 0) continue;
 
@@ -91,445 +451,1746 @@ export function generateWorkoutDSL(goal: GenerateConstraints): string {
     lines.pop();
   }
 
-  return lines.join('\n');
+  const dsl = lines.join('\n');
+  const interpreted = interpretShorthand(dsl);
+  const achievedMeters = interpreted.totals.totalDistanceMeters;
+  const achievedMinutes = interpreted.totals.estimatedMinutes ?? 0;
+  const explanation = explainSections(goal, plan, variation, event, unit);
+
+  const warnings: string[] = [];
+  if (Math.abs(plannedMinutes - achievedMinutes) > TIMING_MISMATCH_MINUTES) {
+    warnings.push(
+      `Planned ${plannedMinutes.toFixed(1)} min but the interpreter estimates ${achievedMinutes.toFixed(1)} min.`
+    );
+  }
+
+  let distance: DistanceFit | undefined;
+  if (hasDistanceTarget) {
+    // Tolerance is measured from the nearest whole number of pool lengths, since a
+    // yard pool can never land exactly on a meter target.
+    const reachableMeters = Math.round(toMeters(targetTotal, unit));
+    const requestedMeters = goal.targetDistanceMeters ?? reachableMeters;
+    const toleranceMeters = goal.distanceToleranceMeters ?? 0;
+    distance = {
+      requestedMeters,
+      reachableMeters,
+      achievedMeters,
+      differenceMeters: achievedMeters - requestedMeters,
+      toleranceMeters,
+      withinTolerance: Math.abs(achievedMeters - reachableMeters) <= toleranceMeters + 1e-6
+    };
+  }
+
+  let duration: DurationFit | undefined;
+  if (goal.targetDurationMinutes) {
+    duration = {
+      requestedMinutes: goal.targetDurationMinutes,
+      achievedMinutes,
+      differenceMinutes: achievedMinutes - goal.targetDurationMinutes,
+      withinBudget: achievedMinutes <= goal.targetDurationMinutes + 1e-6
+    };
+  }
+
+  return {
+    dsl,
+    interpreted,
+    seed,
+    variation,
+    pace: {
+      cssPer100Seconds,
+      source,
+      plannedMinutes,
+      estimatedMinutes: achievedMinutes
+    },
+    event,
+    substitutions: sortBySection(substitutions),
+    explanation,
+    warnings,
+    distance,
+    duration,
+    binding: {
+      constraint: binding,
+      explanation: explainBinding(goal, binding, unit, targetTotal, distancePlanSeconds)
+    }
+  };
+}
+
+export function userTemplateIssues(workout: InterpretedWorkout): string[] {
+  const issues = workout.errors.map((e) => `Line ${e.lineNumber}: ${e.message}`);
+
+  if (workout.sets.length === 0) {
+    issues.push('Template must contain at least one set.');
+  }
+
+  for (const set of workout.sets) {
+    if (!templateSectionFor(set.section)) {
+      issues.push(
+        `Line ${set.lineNumber}: section "${set.section}" is not supported. Expected one of: ${Object.keys(TEMPLATE_SECTIONS).join(', ')}.`
+      );
+    }
+  }
+
+  return issues;
 }
 
-function computeTemplateDistance(template: TemplateLine[], pool: number): number {
-  let total = 0;
-  for (const line of template) {
-    const d = normalizeToPool(line.distance, pool);
-    total += line.baseReps * d;
+function toTemplateLine(set: SetInterval, section: TemplateSection): TemplateLine {
+  return {
+    section,
+    baseReps: set.reps,
+    distance: set.distance,
+    stroke: set.stroke,
+    equipment: set.equipment && set.equipment.length > 0 ? set.equipment : undefined,
+    interval: set.sendOffSeconds !== undefined ? 'sendoff' : 'rest',
+    sendOffSeconds: set.sendOffSeconds,
+    restSeconds: set.restSeconds,
+    intensity: set.zone,
+    progression: set.progression ? (set.progression.kind === 'descend' ? 'desc' : 'build') : undefined
+  };
+}
+
+function userTemplateBlocks(template: UserTemplate): Partial<Record<TemplateSection, SetBlock>> {
+  const blocks: Partial<Record<TemplateSection, SetBlock>> = {};
+
+  for (const set of template.workout.sets) {
+    const section = templateSectionFor(set.section);
+    if (!section) continue;
+
+    const block = blocks[section] ?? { name: template.name, lines: [] };
+    block.lines.push(toTemplateLine(set, section));
+    blocks[section] = block;
   }
-  return total;
+
+  return blocks;
 }
 
-function chooseTargetDistance(goal: GenerateConstraints, baseTotal: number): number {
-  let target = goal.targetDistanceMeters;
-  if (!target || target <= 0) {
-    const profileFactor =
-      goal.profile === 'novice' ? 0.75 :
-      goal.profile === 'elite' ? 1.25 :
-      1.0;
+function templateSectionFor(section: SectionName): TemplateSection | undefined {
+  return TEMPLATE_SECTIONS[section];
+}
+
+// A requested template pins the sections it defines; templates tagged for the
+// focus and profile only join the pool of blocks the variations are drawn from.
+function blockChoices(
+  focus: Focus,
+  userTemplate: UserTemplate | undefined,
+  taggedTemplates: UserTemplate[]
+): Record<TemplateSection, SetBlock[]> {
+  const template = TEMPLATES[focus];
+  const userBlocks = userTemplate ? userTemplateBlocks(userTemplate) : {};
+  const taggedBlocks = taggedTemplates.map(userTemplateBlocks);
+  const choices = {} as Record<TemplateSection, SetBlock[]>;
+
+  for (const section of SECTION_ORDER) {
+    const userBlock = userBlocks[section];
+    if (userBlock) {
+      choices[section] = [userBlock];
+      continue;
+    }
 
-    target = Math.round(baseTotal * profileFactor);
+    const standard = template.filter((line) => line.section === section);
+    choices[section] = [
+      ...(standard.length > 0 ? [{ name: 'standard', lines: standard }] : []),
+      ...(SHARED_BLOCKS[section] ?? []),
+      ...(FOCUS_BLOCKS[focus][section] ?? []),
+      ...taggedBlocks.flatMap((blocks) => blocks[section] ?? [])
+    ];
   }
 
-  target = clamp(target, 1500, 6000);
-  return target;
+  return choices;
 }
 
-function buildSetLine(
-  reps: number,
-  distance: number,
-  stroke: string,
-  sendOff?: string,
-  intensity?: string
+function selectVariations(
+  choices: Record<TemplateSection, SetBlock[]>,
+  random: () => number,
+  count: number
+): number[][] {
+  const sizes = SECTION_ORDER.map((section) => Math.max(1, choices[section].length));
+  const total = sizes.reduce((product, size) => product * size, 1);
+  const combinations =
+    total <= MAX_VARIATION_COMBINATIONS
+      ? allCombinations(sizes)
+      : sampleCombinations(sizes, random, MAX_VARIATION_COMBINATIONS);
+
+  const selected: number[][] = [];
+  while (selected.length < count && selected.length < combinations.length) {
+    let bestDistance = -1;
+    let best: number[][] = [];
+
+    for (const combination of combinations) {
+      if (selected.includes(combination)) continue;
+
+      const distance = selected.length === 0
+        ? 0
+        : Math.min(...selected.map((other) => hammingDistance(other, combination)));
+      if (distance > bestDistance) {
+        bestDistance = distance;
+        best = [combination];
+      } else if (distance === bestDistance) {
+        best.push(combination);
+      }
+    }
+
+    selected.push(best[Math.floor(random() * best.length)]);
+  }
+
+  return selected;
+}
+
+function allCombinations(sizes: number[]): number[][] {
+  let combinations: number[][] = [[]];
+  for (const size of sizes) {
+    combinations = combinations.flatMap((prefix) =>
+      Array.from({ length: size }, (_, index) => [...prefix, index])
+    );
+  }
+  return combinations;
+}
+
+// Tagged templates multiply the block choices, so large spaces are sampled
+// rather than enumerated.
+function sampleCombinations(sizes: number[], random: () => number, limit: number): number[][] {
+  const seen = new Set<string>();
+  const combinations: number[][] = [];
+
+  for (let attempt = 0; attempt < limit * 2 && combinations.length < limit; attempt += 1) {
+    const combination = sizes.map((size) => Math.floor(random() * size));
+    const key = combination.join(',');
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    combinations.push(combination);
+  }
+
+  return combinations;
+}
+
+function hammingDistance(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + (value === b[index] ? 0 : 1), 0);
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function parseRaceEvent(value: string): RaceEvent | undefined {
+  const match = RACE_EVENT_REGEX.exec(value.trim());
+  if (!match) return undefined;
+
+  const distance = Number(match[1]);
+  const stroke = resolveStroke(match[2]);
+  if (!stroke || !RACE_STROKES.includes(stroke) || !RACE_DISTANCES.includes(distance)) {
+    return undefined;
+  }
+  if (stroke === 'IM' && distance < MIN_IM_DISTANCE) {
+    return undefined;
+  }
+
+  return { distance, stroke };
+}
+
+function biasForEvent(line: TemplateLine, event: RaceEvent): TemplateLine {
+  if (
+    line.section !== 'main' ||
+    line.intensity === 'REC' ||
+    !EVENT_SWIM_STROKES.includes(line.stroke)
+  ) {
+    return line;
+  }
+
+  const distance = closestRaceRepDistance(line.distance, event.distance);
+  const stroke = event.stroke === 'IM' && distance < MIN_IM_DISTANCE ? 'choice' : event.stroke;
+  if (distance === line.distance && stroke === line.stroke) {
+    return line;
+  }
+
+  return {
+    ...line,
+    baseReps: Math.max(1, Math.round((line.baseReps * line.distance) / distance)),
+    distance,
+    stroke,
+    comment:
+      distance === line.distance
+        ? line.comment
+        : `Race-specific ${distance}s for the ${event.distance} ${event.stroke}`
+  };
+}
+
+function closestRaceRepDistance(distance: number, eventDistance: number): number {
+  const options = RACE_REP_DISTANCES.filter(
+    (d) => d <= eventDistance && d >= eventDistance * RACE_REP_MIN_FRACTION
+  );
+
+  return options.reduce((best, d) =>
+    Math.abs(d - distance) < Math.abs(best - distance) ? d : best
+  );
+}
+
+function resolvePace(goal: GenerateConstraints): { cssPer100Seconds: number; source: PaceSource } {
+  if (goal.cssPer100Seconds) {
+    return { cssPer100Seconds: goal.cssPer100Seconds, source: 'css' };
+  }
+  if (goal.basePacePer100Seconds) {
+    return {
+      cssPer100Seconds: goal.basePacePer100Seconds - ZONE_PACING.EN1.paceOffset,
+      source: 'base-pace'
+    };
+  }
+  return { cssPer100Seconds: PROFILE_CSS_SECONDS[goal.profile], source: 'profile' };
+}
+
+function lineInterval(
+  planned: PlannedLine,
+  cssPer100Seconds: number,
+  unit: DistanceUnit,
+  paceClock: boolean
+): LineInterval {
+  const { line, distance } = planned;
+  if (line.sendOffSeconds === undefined && line.restSeconds !== undefined) {
+    return { restSeconds: line.restSeconds };
+  }
+  if (line.interval !== 'sendoff') return { restSeconds: DEFAULT_REST_SECONDS };
+
+  const pacing = ZONE_PACING[line.intensity ?? 'EN1'] ?? ZONE_PACING.EN1;
+  const strokeFactor = STROKE_PACE_FACTORS[line.stroke] ?? 1;
+
+  const swimSeconds =
+    ((cssPer100Seconds + pacing.paceOffset) * strokeFactor * toMeters(distance, unit)) / 100;
+
+  if (line.sendOffSeconds !== undefined) {
+    // A stored send-off is kept as written; it only scales when the solver or a
+    // facility adaptation changes the repeat distance.
+    const sendOffSeconds =
+      distance === line.distance
+        ? line.sendOffSeconds
+        : roundUpToClock((line.sendOffSeconds * distance) / line.distance);
+    if (paceClock) return { sendOffSeconds };
+
+    const restSeconds = Math.max(SEND_OFF_ROUNDING_SECONDS, sendOffSeconds - swimSeconds);
+    return { restSeconds: roundUpToClock(restSeconds) };
+  }
+
+  const restSeconds = Math.max(SEND_OFF_ROUNDING_SECONDS, swimSeconds * pacing.restRatio);
+
+  return paceClock
+    ? { sendOffSeconds: roundUpToClock(swimSeconds + restSeconds) }
+    : { restSeconds: roundUpToClock(restSeconds) };
+}
+
+function roundUpToClock(seconds: number): number {
+  return Math.ceil(seconds / SEND_OFF_ROUNDING_SECONDS) * SEND_OFF_ROUNDING_SECONDS;
+}
+
+function adaptToFacility(
+  lines: TemplateLine[],
+  goal: GenerateConstraints
+): { lines: TemplateLine[]; substitutions: Substitution[] } {
+  const pool = goal.poolLength;
+  const adapted: TemplateLine[] = [];
+  const substitutions: Substitution[] = [];
+
+  for (const original of lines) {
+    let line: TemplateLine | null = original;
+    const reasons: string[] = [];
+
+    for (const item of original.equipment ?? []) {
+      if (!line || !goal.equipment || goal.equipment.includes(item)) continue;
+
+      const fallback: EquipmentFallback = EQUIPMENT_FALLBACKS[item]?.(line, goal.equipment) ?? {
+        line: withoutEquipment(line, item),
+        reason: `No ${item}: swim without it.`
+      };
+      line = fallback.line;
+      reasons.push(fallback.reason);
+    }
+
+    if (
+      line &&
+      goal.lanes !== undefined &&
+      goal.lanes <= CROWDED_LANE_LIMIT &&
+      line.interval === 'sendoff' &&
+      line.baseReps > 1 &&
+      normalizeToPool(line.distance, pool) === pool
+    ) {
+      // The comment was written for the original repeat distance ("build each
+      // 25"), so it no longer describes the set.
+      line = {
+        ...line,
+        baseReps: Math.ceil(line.baseReps / 2),
+        distance: pool * 2,
+        comment: undefined
+      };
+      reasons.push(`Only ${goal.lanes} lane(s): longer repeats to cut wall traffic.`);
+    }
+
+    if (reasons.length > 0) {
+      substitutions.push({
+        section: original.section,
+        original: describeTemplateLine(original, pool),
+        replacement: line ? describeTemplateLine(line, pool) : null,
+        reason: reasons.join(' ')
+      });
+    }
+    if (line) {
+      adapted.push(line);
+    }
+  }
+
+  return { lines: adapted, substitutions };
+}
+
+// Facility substitutions are collected before the pace-clock ones; report
+// them in workout order instead. The sort is stable, so lines within a section
+// keep their order.
+function sortBySection(substitutions: Substitution[]): Substitution[] {
+  return [...substitutions].sort(
+    (a, b) => SECTION_ORDER.indexOf(a.section) - SECTION_ORDER.indexOf(b.section)
+  );
+}
+
+function withoutEquipment(line: TemplateLine, item: Equipment): TemplateLine {
+  const equipment = (line.equipment ?? []).filter((e) => e !== item);
+  return { ...line, equipment: equipment.length > 0 ? equipment : undefined };
+}
+
+function describeTemplateLine(line: TemplateLine, pool: number): string {
+  return buildSetLine(
+    line.baseReps,
+    normalizeToPool(line.distance, pool),
+    line.stroke,
+    undefined,
+    undefined,
+    line.intensity,
+    line.progression,
+    line.equipment
+  );
+}
+
+function explainSections(
+  goal: GenerateConstraints,
+  plan: PlannedLine[],
+  variation: Variation,
+  event: RaceEvent | undefined,
+  unit: DistanceUnit
+): SectionExplanation[] {
+  const totalMeters = plan.reduce((sum, p) => sum + toMeters(lineDistance(p), unit), 0);
+  const zoneLabels = new Map(getZoneModel().zones.map((zone) => [zone.id, zone.label]));
+  const eventNote = event
+    ? ` Distances and strokes are biased toward the ${event.distance} ${event.stroke}.`
+    : '';
+
+  return SECTION_ORDER.flatMap((section): SectionExplanation[] => {
+    const lines = plan.filter((p) => p.line.section === section);
+    if (lines.length === 0) return [];
+
+    const distanceMeters = lines.reduce((sum, p) => sum + toMeters(lineDistance(p), unit), 0);
+    const share = roundShare(distanceMeters / Math.max(1, totalMeters));
+    const guidance = PROFILE_SECTION_GUIDANCE[goal.profile][section];
+
+    const byZone = new Map<string, number>();
+    for (const p of lines) {
+      const zone = p.line.intensity ?? 'EN1';
+      byZone.set(zone, (byZone.get(zone) ?? 0) + toMeters(lineDistance(p), unit));
+    }
+    const energySystems = [...byZone.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([zone, meters]) => ({
+        zone,
+        label: zoneLabels.get(zone) ?? zone,
+        distanceMeters: Math.round(meters),
+        share: roundShare(meters / distanceMeters)
+      }));
+
+    const purpose =
+      section === 'main' ? [MAIN_SET_PURPOSE[goal.focus], eventNote].join('') : SECTION_PURPOSE[section];
+
+    return [
+      {
+        section,
+        block: variation[section],
+        purpose,
+        energySystems,
+        scaling: describeScaling(lines, goal.poolLength, unit),
+        distanceMeters: Math.round(distanceMeters),
+        share,
+        guidance,
+        withinGuidance: share >= guidance.min && share <= guidance.max,
+        cues: lines.flatMap((p) => (p.line.comment ? [p.line.comment] : []))
+      }
+    ];
+  });
+}
+
+function describeScaling(lines: PlannedLine[], pool: number, unit: DistanceUnit): string {
+  const changes = lines
+    .filter((p) => p.reps !== p.line.baseReps || p.distance !== normalizeToPool(p.line.distance, pool))
+    .map(
+      (p) =>
+        `${p.line.baseReps}x${normalizeToPool(p.line.distance, pool)} → ${p.reps}x${p.distance} ${p.line.stroke}`
+    );
+  if (changes.length === 0) {
+    return 'Used as written in the template.';
+  }
+
+  const base = lines.reduce(
+    (sum, p) => sum + p.line.baseReps * normalizeToPool(p.line.distance, pool),
+    0
+  );
+  const planned = lines.reduce((sum, p) => sum + lineDistance(p), 0);
+  const direction = planned > base ? 'Scaled up' : planned < base ? 'Scaled down' : 'Rebalanced';
+  return `${direction} from ${base}${unit} to ${planned}${unit} to meet the target: ${changes.join(', ')}.`;
+}
+
+function roundShare(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function explainBinding(
+  goal: GenerateConstraints,
+  binding: ConstraintKind,
+  unit: DistanceUnit,
+  targetTotal: number,
+  distancePlanSeconds: number | undefined
 ): string {
-  const repsPart = reps > 1 ? `${reps}x` : '';
-  const sendOffPart = sendOff ? ` @${sendOff}` : '';
-  const intensityPart = intensity ? ` ${intensity}` : '';
-  return `${repsPart}${distance} ${stroke}${sendOffPart}${intensityPart}`;
+  const distanceLabel = `${targetTotal}${unit}`;
+  const budget = goal.targetDurationMinutes;
+
+  if (binding === 'duration' && distancePlanSeconds !== undefined && budget) {
+    return `${distanceLabel} needs about ${Math.round(distancePlanSeconds / 60)} min at the emitted send-offs, more than the ${budget} min budget, so the workout was shortened to fit the time.`;
+  }
+  if (binding === 'duration') {
+    return `Sized to fit ${budget} min using the emitted send-offs and rest.`;
+  }
+  if (budget && distancePlanSeconds !== undefined) {
+    return `${distanceLabel} fits within the ${budget} min budget (about ${Math.round(distancePlanSeconds / 60)} min), so distance was the binding constraint.`;
+  }
+  if (goal.targetDistanceMeters) {
+    return `Sized to the requested ${distanceLabel}.`;
+  }
+  return `Sized to the ${goal.profile} default of ${distanceLabel}.`;
 }
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
+function solvePlan(
+  template: TemplateLine[],
+  pool: number,
+  target: number,
+  measure: (planned: PlannedLine) => number,
+  upperBound = false
+): PlannedLine[] {
+  const basePlan: PlannedLine[] = template.map((line) => ({
+    line,
+    reps: line.baseReps,
+    distance: normalizeToPool(line.distance, pool)
+  }));
+
+  const scale = target / measurePlan(basePlan, measure);
+  const maxFactor = Math.max(MAX_REPS_FACTOR, Math.ceil(scale) + 1);
+  const plan: PlannedLine[] = basePlan.map((planned) => ({
+    ...planned,
+    reps: clamp(Math.round(planned.line.baseReps * scale), 1, planned.line.baseReps * maxFactor)
+  }));
+
+  for (let step = 0; step < MAX_SOLVER_STEPS; step += 1) {
+    const gap = target - measurePlan(plan, measure);
+    if (gap === 0) break;
+
+    const moves = chooseMove(plan, pool, gap, measure, maxFactor, upperBound);
+    if (!moves) break;
+
+    for (const move of moves) {
+      plan[move.index] = move.planned;
+    }
+  }
+
+  return plan;
 }
 
-function normalizeToPool(distance: number, pool: number): number {
-  if (distance <= 0) return pool;
-  const remainder = distance % pool;
-  if (remainder === 0) return distance;
-  return distance + (pool - remainder);
+function chooseMove(
+  plan: PlannedLine[],
+  pool: number,
+  gap: number,
+  measure: (planned: PlannedLine) => number,
+  maxFactor: number,
+  upperBound: boolean
+): PlanMove[] | undefined {
+  const currentViolation = sectionShareViolation(plan);
+  const overBudget = upperBound && gap < 0;
+  const moves = candidateMoves(plan, pool, maxFactor, overBudget).map((move) => ({
+    ...move,
+    delta: measure(move.planned) - measure(plan[move.index])
+  }));
+  let best: { moves: PlanMove[]; remaining: number } | undefined;
+
+  const consider = (combined: (PlanMove & { delta: number })[], keepBalance = true) => {
+    const delta = combined.reduce((sum, move) => sum + move.delta, 0);
+    const remaining = targetMiss(gap - delta, upperBound);
+    if (remaining >= targetMiss(gap, upperBound) || (best && remaining >= best.remaining)) return;
+
+    const next = [...plan];
+    for (const move of combined) {
+      next[move.index] = move.planned;
+    }
+    if (keepBalance && sectionShareViolation(next) > currentViolation + 1e-9) return;
+
+    best = { moves: combined, remaining };
+  };
+
+  for (const move of moves) {
+    consider([move]);
+  }
+
+  // A single step can get stuck when every small move breaks the section
+  // balance (e.g. the main set is already at its share limit), so fall back to
+  // trading distance between two lines, and only then let the target win over
+  // the section shares.
+  if (!best) {
+    moves.forEach((first, i) => {
+      for (const second of moves.slice(i + 1)) {
+        if (second.index !== first.index) consider([first, second]);
+      }
+    });
+  }
+  if (!best) {
+    for (const move of moves) {
+      consider([move], false);
+    }
+  }
+
+  return best?.moves;
+}
+
+// With an upper bound (a time budget), any plan under the target beats any plan
+// over it, so the solver never trades a small overrun for a closer fit.
+function targetMiss(gap: number, upperBound: boolean): number {
+  return upperBound && gap < 0 ? OVER_BUDGET_PENALTY - gap : Math.abs(gap);
 }
 
-const AEROBIC_TEMPLATE: TemplateLine[] = [
+function candidateMoves(
+  plan: PlannedLine[],
+  pool: number,
+  maxFactor: number,
+  overBudget: boolean
+): PlanMove[] {
+  return plan.flatMap((planned, index) => {
+    const { line } = planned;
+    const moves: PlanMove[] = [];
+
+    for (const delta of [1, -1]) {
+      const reps = planned.reps + delta;
+      if (reps >= 1 && reps <= line.baseReps * maxFactor) {
+        moves.push({ index, planned: { ...planned, reps } });
+      }
+
+      // Over a time budget, a repeat set already cut to one rep may also get shorter.
+      if (allowsDistanceChange(line) || (overBudget && planned.reps === 1 && delta < 0)) {
+        const distance = planned.distance + delta * pool;
+        const minDistance = Math.max(pool, normalizeToPool(line.distance / 2, pool));
+        if (distance >= minDistance && distance <= line.distance * maxFactor) {
+          moves.push({ index, planned: { ...planned, distance } });
+        }
+      }
+    }
+
+    return moves;
+  });
+}
+
+function lineDistance(planned: PlannedLine): number {
+  return planned.reps * planned.distance;
+}
+
+function lineSeconds(planned: PlannedLine, unit: DistanceUnit, interval: LineInterval): number {
+  if (interval.sendOffSeconds !== undefined) {
+    return planned.reps * interval.sendOffSeconds;
+  }
+
+  const swimSeconds = (toMeters(planned.distance, unit) / 100) * DEFAULT_PACE_SECONDS_PER_100;
+  return planned.reps * (swimSeconds + (interval.restSeconds ?? 0));
+}
+
+function measurePlan(plan: PlannedLine[], measure: (planned: PlannedLine) => number): number {
+  return plan.reduce((sum, p) => sum + measure(p), 0);
+}
+
+function allowsDistanceChange(line: TemplateLine): boolean {
+  return line.baseReps === 1;
+}
+
+function planDistance(plan: PlannedLine[]): number {
+  return measurePlan(plan, lineDistance);
+}
+
+function sectionShareViolation(plan: PlannedLine[]): number {
+  const total = planDistance(plan);
+  if (total <= 0) return 0;
+
+  let violation = 0;
+  for (const section of SECTION_ORDER) {
+    const sectionPlan = plan.filter((p) => p.line.section === section);
+    if (sectionPlan.length === 0) continue;
+
+    const share = planDistance(sectionPlan) / total;
+    const { min, max } = SECTION_SHARE_BOUNDS[section];
+    violation += Math.max(0, min - share, share - max);
+  }
+  return violation;
+}
+
+function computeTemplateDistance(template: TemplateLine[], pool: number): number {
+  let total = 0;
+  for (const line of template) {
+    const d = normalizeToPool(line.distance, pool);
+    total += line.baseReps * d;
+  }
+  return total;
+}
+
+function chooseTargetDistance(
+  goal: GenerateConstraints,
+  baseTotal: number,
+  unit: DistanceUnit,
+  pool: number
+): number {
+  if (goal.targetDistanceMeters && goal.targetDistanceMeters > 0) {
+    return Math.max(pool, Math.round(fromMeters(goal.targetDistanceMeters, unit) / pool) * pool);
+  }
+
+  const profileFactor =
+    goal.profile === 'novice' ? 0.75 :
+    goal.profile === 'elite' ? 1.25 :
+    1.0;
+
+  const target = clamp(baseTotal * profileFactor, fromMeters(1500, unit), fromMeters(6000, unit));
+  return Math.round(target / pool) * pool;
+}
+
+function buildSetLine(
+  reps: number,
+  distance: number,
+  stroke: string,
+  sendOff?: string,
+  rest?: string,
+  intensity?: string,
+  progression?: string,
+  equipment?: Equipment[]
+): string {
+  const repsPart = reps > 1 ? `${reps}x` : '';
+  const sendOffPart = sendOff ? ` @${sendOff}` : '';
+  const restPart = rest ? ` rest ${rest}` : '';
+  const intensityPart = intensity ? ` ${intensity}` : '';
+  const progressionPart = progression ? ` ${progression}` : '';
+  const equipmentPart = equipment && equipment.length > 0 ? ` w/ ${equipment.join(' + ')}` : '';
+  return `${repsPart}${distance} ${stroke}${sendOffPart}${restPart}${intensityPart}${progressionPart}${equipmentPart}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function normalizeToPool(distance: number, pool: number): number {
+  if (distance <= 0) return pool;
+  const remainder = distance % pool;
+  if (remainder === 0) return distance;
+  return distance + (pool - remainder);
+}
+
+const AEROBIC_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, long strokes'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Technique focus, 1 stroke per 50 if you want'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build 1–4, finish near race tempo'
+  },
+  {
+    section: 'preset',
+    baseReps: 6,
+    distance: 50,
+    stroke: 'kick',
+    equipment: ['board'],
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Kick with board or streamline; keep it moving'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'pull',
+    equipment: ['buoy'],
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Pull with buoy, focus on distance per stroke'
+  },
+  {
+    section: 'main',
+    baseReps: 6,
+    distance: 100,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Steady aerobic, hold consistent pace'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 200,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Longer repeats, smooth & controlled'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, flush out'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const THRESHOLD_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, loosen up'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Technique, long strokes'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build 1–4 to strong'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'kick',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Short kick to wake legs'
+  },
+  {
+    section: 'preset',
+    baseReps: 6,
+    distance: 50,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Prep for threshold pace, focus on rhythm'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    progression: 'build',
+    comment: 'Descend or build within each 50'
+  },
+  {
+    section: 'preset',
+    baseReps: 1,
+    distance: 100,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy before main set'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
+    distance: 100,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Block 1 – straight threshold 100s'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'SP1',
+    comment: 'Fast 50s to sharpen speed'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 100,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Block 2 – hold pace under fatigue'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'choice',
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy active recovery'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Long easy swim'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const SPRINT_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, mix strokes'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Drill focus – streamline, catch, finish'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build 1–4, faster into the wall'
+  },
+  {
+    section: 'preset',
+    baseReps: 8,
+    distance: 25,
+    stroke: 'kick',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Kick with high tempo, good streamline'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    progression: 'build',
+    comment: 'Build 1–4, last 15m strong'
+  },
+  {
+    section: 'main',
+    baseReps: 12,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'SP3',
+    comment: 'All-out 25s, focus on start + first 10m'
+  },
+  {
+    section: 'main',
+    baseReps: 12,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Equal easy swimming for active recovery'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
+    distance: 50,
+    stroke: 'kick',
+    equipment: ['fins'],
+    interval: 'sendoff',
+    intensity: 'SP1',
+    comment: 'Fast kick 50s – walls + underwaters'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'SP3',
+    comment: '50s from a push, race effort'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy choice, relax the stroke'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 8,
+    distance: 25,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const TECHNIQUE_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, focus on body line'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Simple drills: catch-up, fingertip drag, etc.'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build 1–4, hold good form'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    equipment: ['snorkel'],
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Drill only, no rush'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'kick',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Kick on side or on back, stable head'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Second drill focus – maybe breathing or rotation'
+  },
+  {
+    section: 'preset',
+    baseReps: 8,
+    distance: 25,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Short drill 25s, very precise'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
+    distance: 100,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: '100s, keep stroke count low, good form'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Finish with pure drills'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, flush everything out'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 8,
+    distance: 25,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const BACKSTROKE_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 400,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, every other length backstroke'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'drill',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Backstroke drill – hip rotation, still head'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 25,
+    stroke: 'BK',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 25, fast turns off the flags'
+  },
+  {
+    section: 'preset',
+    baseReps: 6,
+    distance: 50,
+    stroke: 'kick',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Kick on the back, arms in streamline'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'BK',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    progression: 'build',
+    comment: 'Build 1–4, hold a high tempo'
+  },
+  {
+    section: 'main',
+    baseReps: 6,
+    distance: 100,
+    stroke: 'BK',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Strong 100s, count strokes from the flags'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
+    distance: 50,
+    stroke: 'BK',
+    interval: 'sendoff',
+    intensity: 'EN3',
+    comment: 'Fast 50s, long underwaters off each wall'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
+    distance: 100,
+    stroke: 'pull',
+    equipment: ['buoy'],
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Pull, long reach and steady hips'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy choice, loose shoulders'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'BK',
+    intensity: 'REC'
+  }
+];
+
+const BREASTSTROKE_TEMPLATE: TemplateLine[] = [
   {
     section: 'warmup',
     baseReps: 1,
-    distance: 300,
+    distance: 400,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, long strokes'
+    intensity: 'REC',
+    comment: 'Easy swim, include some breaststroke'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 50,
     stroke: 'drill',
-    sendOff: '1:00',
-    intensity: 'aerobic',
-    comment: 'Technique focus, 1 stroke per 50 if you want'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Two kicks one pull, long glide'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 25,
-    stroke: 'FR',
-    sendOff: '0:30',
-    intensity: 'build',
-    comment: 'Build 1–4, finish near race tempo'
+    stroke: 'BR',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 25, quick hands'
   },
   {
     section: 'preset',
     baseReps: 6,
     distance: 50,
     stroke: 'kick',
-    sendOff: '1:00',
-    intensity: 'moderate',
-    comment: 'Kick with board or streamline; keep it moving'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Breaststroke kick on the back, knees narrow'
   },
   {
     section: 'preset',
     baseReps: 4,
     distance: 50,
-    stroke: 'pull',
-    sendOff: '1:00',
-    intensity: 'aerobic',
-    comment: 'Pull with buoy, focus on distance per stroke'
+    stroke: 'BR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Full pullout on every wall'
   },
   {
     section: 'main',
-    baseReps: 6,
+    baseReps: 8,
     distance: 100,
-    stroke: 'FR',
-    sendOff: '1:40',
-    intensity: 'aerobic',
-    comment: 'Steady aerobic, hold consistent pace'
+    stroke: 'BR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Hold stroke count, full pullout every wall'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
+    distance: 50,
+    stroke: 'BR',
+    interval: 'sendoff',
+    intensity: 'EN3',
+    progression: 'desc',
+    comment: 'Descend 1–4, twice through'
   },
   {
     section: 'main',
     baseReps: 4,
-    distance: 200,
+    distance: 50,
     stroke: 'FR',
-    sendOff: '3:30',
-    intensity: 'moderate',
-    comment: 'Longer repeats, smooth & controlled'
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy free to reset'
   },
   {
     section: 'cooldown',
     baseReps: 1,
     distance: 200,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, flush out'
+    intensity: 'REC',
+    comment: 'Easy choice, relax the legs'
   },
   {
     section: 'cooldown',
     baseReps: 4,
-    distance: 25,
+    distance: 50,
     stroke: 'choice',
-    intensity: 'easy'
+    intensity: 'REC'
   }
 ];
 
-const THRESHOLD_TEMPLATE: TemplateLine[] = [
+const BUTTERFLY_TEMPLATE: TemplateLine[] = [
   {
     section: 'warmup',
     baseReps: 1,
-    distance: 300,
+    distance: 400,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, loosen up'
+    intensity: 'REC',
+    comment: 'Easy swim, mix strokes'
   },
   {
     section: 'warmup',
-    baseReps: 4,
+    baseReps: 6,
     distance: 50,
     stroke: 'drill',
-    sendOff: '1:00',
-    intensity: 'aerobic',
-    comment: 'Technique, long strokes'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Single-arm fly, breathe late'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 25,
-    stroke: 'FR',
-    sendOff: '0:30',
-    intensity: 'build',
-    comment: 'Build 1–4 to strong'
+    stroke: 'FL',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 25, rhythm over power'
   },
   {
-    section: 'warmup',
-    baseReps: 4,
+    section: 'preset',
+    baseReps: 8,
     distance: 25,
     stroke: 'kick',
-    sendOff: '0:40',
-    intensity: 'moderate',
-    comment: 'Short kick to wake legs'
-  },
-  {
-    section: 'preset',
-    baseReps: 6,
-    distance: 50,
-    stroke: 'FR',
-    sendOff: '0:55',
-    intensity: 'moderate',
-    comment: 'Prep for threshold pace, focus on rhythm'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Dolphin kick on the back, small and fast'
   },
   {
     section: 'preset',
     baseReps: 4,
     distance: 50,
-    stroke: 'FR',
-    sendOff: '1:00',
-    intensity: 'build',
-    comment: 'Descend or build within each 50'
-  },
-  {
-    section: 'preset',
-    baseReps: 1,
-    distance: 100,
-    stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy before main set'
+    stroke: 'FL',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: '25 fly / 25 free, long strokes'
   },
   {
     section: 'main',
-    baseReps: 8,
-    distance: 100,
-    stroke: 'FR',
-    sendOff: '1:30',
-    intensity: 'thresh',
-    comment: 'Block 1 – straight threshold 100s'
+    baseReps: 12,
+    distance: 25,
+    stroke: 'FL',
+    interval: 'sendoff',
+    intensity: 'EN3',
+    comment: 'Perfect fly, stop if the stroke falls apart'
   },
   {
     section: 'main',
-    baseReps: 4,
-    distance: 50,
-    stroke: 'FR',
-    sendOff: '0:50',
-    intensity: 'fast',
-    comment: 'Fast 50s to sharpen speed'
+    baseReps: 6,
+    distance: 75,
+    stroke: 'FL',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Fly-free-fly by 25'
   },
   {
     section: 'main',
     baseReps: 4,
     distance: 100,
     stroke: 'FR',
-    sendOff: '1:35',
-    intensity: 'thresh',
-    comment: 'Block 2 – hold pace under fatigue'
-  },
-  {
-    section: 'main',
-    baseReps: 4,
-    distance: 50,
-    stroke: 'choice',
-    sendOff: '1:00',
-    intensity: 'easy',
-    comment: 'Easy active recovery'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Smooth free to reset'
   },
   {
     section: 'cooldown',
     baseReps: 1,
     distance: 200,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Long easy swim'
+    intensity: 'REC',
+    comment: 'Easy choice, relax the stroke'
   },
   {
     section: 'cooldown',
     baseReps: 4,
-    distance: 25,
-    stroke: 'choice',
-    intensity: 'easy'
+    distance: 50,
+    stroke: 'BK',
+    intensity: 'REC',
+    comment: 'Easy backstroke to open the shoulders'
   }
 ];
 
-const SPRINT_TEMPLATE: TemplateLine[] = [
+const IM_TEMPLATE: TemplateLine[] = [
   {
     section: 'warmup',
     baseReps: 1,
-    distance: 300,
+    distance: 400,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, mix strokes'
+    intensity: 'REC',
+    comment: 'Easy swim, 100 of each stroke'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 50,
     stroke: 'drill',
-    sendOff: '1:00',
-    intensity: 'aerobic',
-    comment: 'Drill focus – streamline, catch, finish'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'IM order drill by 50'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 25,
-    stroke: 'FR',
-    sendOff: '0:30',
-    intensity: 'build',
-    comment: 'Build 1–4, faster into the wall'
+    stroke: 'choice',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 25, IM order'
+  },
+  {
+    section: 'preset',
+    baseReps: 4,
+    distance: 100,
+    stroke: 'IM',
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'IM, smooth transitions'
   },
   {
     section: 'preset',
     baseReps: 8,
     distance: 25,
     stroke: 'kick',
-    sendOff: '0:40',
-    intensity: 'moderate',
-    comment: 'Kick with high tempo, good streamline'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'IM order kick'
   },
   {
-    section: 'preset',
+    section: 'main',
     baseReps: 4,
+    distance: 200,
+    stroke: 'IM',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Even pace through all four strokes'
+  },
+  {
+    section: 'main',
+    baseReps: 8,
     distance: 50,
-    stroke: 'FR',
-    sendOff: '0:55',
-    intensity: 'build',
-    comment: 'Build 1–4, last 15m strong'
+    stroke: 'choice',
+    interval: 'sendoff',
+    intensity: 'EN3',
+    comment: 'IM order by 50, fast'
   },
   {
     section: 'main',
-    baseReps: 12,
-    distance: 25,
+    baseReps: 4,
+    distance: 100,
+    stroke: 'IM',
+    interval: 'sendoff',
+    intensity: 'EN3',
+    comment: 'Strong IM, attack the transitions'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy choice, long strokes'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const DISTANCE_FREE_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 600,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Long easy swim, settle the breathing'
+  },
+  {
+    section: 'warmup',
+    baseReps: 4,
+    distance: 100,
+    stroke: 'pull',
+    equipment: ['buoy'],
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Pull, long strokes'
+  },
+  {
+    section: 'preset',
+    baseReps: 8,
+    distance: 50,
     stroke: 'FR',
-    sendOff: '0:40',
-    intensity: 'sprint',
-    comment: 'All-out 25s, focus on start + first 10m'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 50, hold the catch'
   },
   {
     section: 'main',
-    baseReps: 12,
-    distance: 25,
+    baseReps: 2,
+    distance: 800,
     stroke: 'FR',
-    sendOff: '0:50',
-    intensity: 'easy',
-    comment: 'Equal easy swimming for active recovery'
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Even splits, negative split the second'
   },
   {
     section: 'main',
-    baseReps: 8,
-    distance: 50,
-    stroke: 'kick',
-    sendOff: '1:10',
-    intensity: 'fast',
-    comment: 'Fast kick 50s – walls + underwaters'
+    baseReps: 5,
+    distance: 200,
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    comment: 'Hold 800 pace'
   },
   {
     section: 'main',
     baseReps: 4,
-    distance: 50,
+    distance: 100,
     stroke: 'FR',
-    sendOff: '1:00',
-    intensity: 'sprint',
-    comment: '50s from a push, race effort'
+    interval: 'sendoff',
+    intensity: 'EN3',
+    comment: 'Faster than distance pace'
   },
   {
     section: 'cooldown',
     baseReps: 1,
-    distance: 200,
+    distance: 300,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy choice, relax the stroke'
+    intensity: 'REC',
+    comment: 'Easy swim, stretch out'
   },
   {
     section: 'cooldown',
-    baseReps: 8,
-    distance: 25,
+    baseReps: 4,
+    distance: 50,
     stroke: 'choice',
-    intensity: 'easy'
+    intensity: 'REC'
   }
 ];
 
-const TECHNIQUE_TEMPLATE: TemplateLine[] = [
+const RACE_PACE_TEMPLATE: TemplateLine[] = [
   {
     section: 'warmup',
     baseReps: 1,
-    distance: 300,
+    distance: 400,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, focus on body line'
+    intensity: 'REC',
+    comment: 'Easy swim, mix strokes'
   },
   {
     section: 'warmup',
     baseReps: 4,
     distance: 50,
     stroke: 'drill',
-    sendOff: '1:05',
-    intensity: 'aerobic',
-    comment: 'Simple drills: catch-up, fingertip drag, etc.'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    comment: 'Race-stroke drill'
   },
   {
     section: 'warmup',
-    baseReps: 4,
+    baseReps: 6,
     distance: 25,
     stroke: 'FR',
-    sendOff: '0:30',
-    intensity: 'build',
-    comment: 'Build 1–4, hold good form'
+    interval: 'sendoff',
+    intensity: 'EN1',
+    progression: 'build',
+    comment: 'Build each 25 to race tempo'
   },
   {
     section: 'preset',
     baseReps: 4,
     distance: 50,
-    stroke: 'drill',
-    sendOff: '1:10',
-    intensity: 'aerobic',
-    comment: 'Drill only, no rush'
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'EN2',
+    progression: 'build',
+    comment: 'Build 1–4, last one at race pace'
   },
   {
     section: 'preset',
     baseReps: 4,
-    distance: 50,
+    distance: 25,
     stroke: 'kick',
-    sendOff: '1:10',
-    intensity: 'moderate',
-    comment: 'Kick on side or on back, stable head'
+    equipment: ['fins'],
+    interval: 'sendoff',
+    intensity: 'SP1',
+    comment: 'Fast kick, race tempo'
   },
   {
-    section: 'preset',
-    baseReps: 4,
+    section: 'main',
+    baseReps: 16,
     distance: 50,
-    stroke: 'drill',
-    sendOff: '1:10',
-    intensity: 'aerobic',
-    comment: 'Second drill focus – maybe breathing or rotation'
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'SP1',
+    comment: 'Goal race pace, hold it on every repeat'
   },
   {
-    section: 'preset',
+    section: 'main',
     baseReps: 8,
     distance: 25,
-    stroke: 'drill',
-    sendOff: '0:45',
-    intensity: 'aerobic',
-    comment: 'Short drill 25s, very precise'
+    stroke: 'FR',
+    interval: 'sendoff',
+    intensity: 'SP2',
+    comment: 'Faster than race pace off the wall'
   },
   {
     section: 'main',
-    baseReps: 8,
+    baseReps: 4,
     distance: 100,
-    stroke: 'FR',
-    sendOff: '2:00',
-    intensity: 'aerobic',
-    comment: '100s, keep stroke count low, good form'
+    stroke: 'choice',
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy between rounds'
   },
   {
-    section: 'main',
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Easy swim, long strokes'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'choice',
+    intensity: 'REC'
+  }
+];
+
+const RECOVERY_TEMPLATE: TemplateLine[] = [
+  {
+    section: 'warmup',
+    baseReps: 1,
+    distance: 300,
+    stroke: 'choice',
+    intensity: 'REC',
+    comment: 'Very easy, any stroke'
+  },
+  {
+    section: 'warmup',
     baseReps: 4,
     distance: 50,
     stroke: 'drill',
-    sendOff: '1:00',
-    intensity: 'aerobic',
-    comment: 'Finish with pure drills'
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy drill, perfect form'
   },
   {
-    section: 'cooldown',
-    baseReps: 1,
+    section: 'preset',
+    baseReps: 4,
+    distance: 50,
+    stroke: 'kick',
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy kick, no board'
+  },
+  {
+    section: 'main',
+    baseReps: 4,
     distance: 200,
     stroke: 'choice',
-    intensity: 'easy',
-    comment: 'Easy swim, flush everything out'
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy aerobic, relaxed breathing'
   },
   {
-    section: 'cooldown',
+    section: 'main',
+    baseReps: 6,
+    distance: 100,
+    stroke: 'pull',
+    equipment: ['buoy'],
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy pull, long strokes'
+  },
+  {
+    section: 'main',
     baseReps: 8,
-    distance: 25,
+    distance: 50,
+    stroke: 'BK',
+    interval: 'sendoff',
+    intensity: 'REC',
+    comment: 'Easy backstroke'
+  },
+  {
+    section: 'cooldown',
+    baseReps: 1,
+    distance: 200,
     stroke: 'choice',
-    intensity: 'easy'
+    intensity: 'REC',
+    comment: 'Easy swim, flush everything out'
   }
 ];
 
@@ -537,5 +2198,631 @@ const TEMPLATES: Record<Focus, TemplateLine[]> = {
   aerobic: AEROBIC_TEMPLATE,
   threshold: THRESHOLD_TEMPLATE,
   sprint: SPRINT_TEMPLATE,
-  technique: TECHNIQUE_TEMPLATE
+  technique: TECHNIQUE_TEMPLATE,
+  backstroke: BACKSTROKE_TEMPLATE,
+  breaststroke: BREASTSTROKE_TEMPLATE,
+  butterfly: BUTTERFLY_TEMPLATE,
+  im: IM_TEMPLATE,
+  'distance-free': DISTANCE_FREE_TEMPLATE,
+  'race-pace': RACE_PACE_TEMPLATE,
+  recovery: RECOVERY_TEMPLATE
+};
+
+const SHARED_BLOCKS: Partial<Record<TemplateSection, SetBlock[]>> = {
+  warmup: [
+    {
+      name: 'pull-warmup',
+      lines: [
+        {
+          section: 'warmup',
+          baseReps: 1,
+          distance: 400,
+          stroke: 'choice',
+          intensity: 'REC',
+          comment: 'Easy 400, every fourth length backstroke'
+        },
+        {
+          section: 'warmup',
+          baseReps: 4,
+          distance: 50,
+          stroke: 'pull',
+          equipment: ['buoy'],
+          interval: 'sendoff',
+          intensity: 'EN1',
+          comment: 'Pull with buoy, long strokes'
+        },
+        {
+          section: 'warmup',
+          baseReps: 4,
+          distance: 25,
+          stroke: 'FR',
+          interval: 'sendoff',
+          intensity: 'EN1',
+          progression: 'build',
+          comment: 'Build each 25'
+        }
+      ]
+    },
+    {
+      name: 'im-warmup',
+      lines: [
+        {
+          section: 'warmup',
+          baseReps: 1,
+          distance: 200,
+          stroke: 'choice',
+          intensity: 'REC',
+          comment: 'Easy swim, loosen up'
+        },
+        {
+          section: 'warmup',
+          baseReps: 2,
+          distance: 100,
+          stroke: 'IM',
+          interval: 'sendoff',
+          intensity: 'EN1',
+          comment: 'IM order, smooth transitions'
+        },
+        {
+          section: 'warmup',
+          baseReps: 4,
+          distance: 50,
+          stroke: 'drill',
+          interval: 'sendoff',
+          intensity: 'EN1',
+          comment: 'Drill of choice, focus on the catch'
+        }
+      ]
+    }
+  ],
+  cooldown: [
+    {
+      name: 'easy-50s',
+      lines: [
+        {
+          section: 'cooldown',
+          baseReps: 4,
+          distance: 50,
+          stroke: 'choice',
+          interval: 'sendoff',
+          intensity: 'REC',
+          comment: 'Easy 50s, mix strokes'
+        },
+        {
+          section: 'cooldown',
+          baseReps: 1,
+          distance: 100,
+          stroke: 'choice',
+          intensity: 'REC',
+          comment: 'Very easy, long exhale'
+        }
+      ]
+    },
+    {
+      name: 'long-easy',
+      lines: [
+        {
+          section: 'cooldown',
+          baseReps: 1,
+          distance: 300,
+          stroke: 'choice',
+          intensity: 'REC',
+          comment: 'Long easy swim, relax the stroke'
+        }
+      ]
+    }
+  ]
+};
+
+const FOCUS_BLOCKS: Record<Focus, Partial<Record<TemplateSection, SetBlock[]>>> = {
+  aerobic: {
+    preset: [
+      {
+        name: 'im-kick',
+        lines: [
+          {
+            section: 'preset',
+            baseReps: 4,
+            distance: 100,
+            stroke: 'IM',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'IM order, steady'
+          },
+          {
+            section: 'preset',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'kick',
+            equipment: ['board'],
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Kick with board, steady tempo'
+          }
+        ]
+      }
+    ],
+    main: [
+      {
+        name: 'long-repeats',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 3,
+            distance: 400,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Steady 400s, negative split each one'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 100,
+            stroke: 'pull',
+            equipment: ['buoy', 'paddles'],
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Pull, hold stroke count'
+          }
+        ]
+      },
+      {
+        name: 'broken-pace',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 150,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Hold the same pace on every 150'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 75,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Smooth 75s, good turns'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'REC',
+            comment: 'Easy active recovery'
+          }
+        ]
+      }
+    ]
+  },
+  threshold: {
+    preset: [
+      {
+        name: 'descend-75s',
+        lines: [
+          {
+            section: 'preset',
+            baseReps: 4,
+            distance: 75,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            progression: 'desc',
+            comment: 'Descend 1–4 to threshold pace'
+          },
+          {
+            section: 'preset',
+            baseReps: 4,
+            distance: 25,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast 25s, quick turnover'
+          },
+          {
+            section: 'preset',
+            baseReps: 1,
+            distance: 100,
+            stroke: 'choice',
+            intensity: 'REC',
+            comment: 'Easy before main set'
+          }
+        ]
+      }
+    ],
+    main: [
+      {
+        name: 'threshold-200s',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 5,
+            distance: 200,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Threshold 200s, hold pace'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'REC',
+            comment: 'Easy active recovery'
+          },
+          {
+            section: 'main',
+            baseReps: 6,
+            distance: 50,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast finish'
+          }
+        ]
+      },
+      {
+        name: 'threshold-75s',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 12,
+            distance: 75,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Threshold 75s, same pace throughout'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 100,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN3',
+            comment: 'Hard 100s, hold form'
+          }
+        ]
+      }
+    ]
+  },
+  sprint: {
+    preset: [
+      {
+        name: 'fast-kick',
+        lines: [
+          {
+            section: 'preset',
+            baseReps: 6,
+            distance: 25,
+            stroke: 'kick',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast kick, tight streamline'
+          },
+          {
+            section: 'preset',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            progression: 'build',
+            comment: 'Build each 50 to fast'
+          }
+        ]
+      }
+    ],
+    main: [
+      {
+        name: 'max-50s',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 50,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP3',
+            comment: 'Max effort 50s, full recovery'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 25,
+            stroke: 'kick',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast kick 25s with underwaters'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 100,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'REC',
+            comment: 'Easy, loosen up'
+          }
+        ]
+      },
+      {
+        name: 'race-25s',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 16,
+            distance: 25,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP2',
+            comment: 'Race tempo 25s, fast breakouts'
+          },
+          {
+            section: 'main',
+            baseReps: 6,
+            distance: 50,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Race-pace 50s from a push'
+          }
+        ]
+      }
+    ]
+  },
+  technique: {
+    preset: [
+      {
+        name: 'stroke-count',
+        lines: [
+          {
+            section: 'preset',
+            baseReps: 6,
+            distance: 50,
+            stroke: 'drill',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Single-arm drill, 25 each arm'
+          },
+          {
+            section: 'preset',
+            baseReps: 6,
+            distance: 50,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Count strokes, drop one per length'
+          }
+        ]
+      }
+    ],
+    main: [
+      {
+        name: 'drill-swim',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 6,
+            distance: 100,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: '25 drill / 75 swim'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'BK',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Backstroke, steady head'
+          }
+        ]
+      },
+      {
+        name: 'swim-drill-swim',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 75,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN1',
+            comment: 'Swim-drill-swim by 25'
+          },
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 50,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'REC',
+            comment: 'Easy active recovery'
+          }
+        ]
+      }
+    ]
+  },
+  backstroke: {
+    main: [
+      {
+        name: 'bk-fast-finish',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 150,
+            stroke: 'BK',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Backstroke 150s, last 50 strongest'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 25,
+            stroke: 'BK',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast 25s from a push'
+          }
+        ]
+      }
+    ]
+  },
+  breaststroke: {
+    main: [
+      {
+        name: 'br-pullouts',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 75,
+            stroke: 'BR',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Strong 75s, full pullout every wall'
+          },
+          {
+            section: 'main',
+            baseReps: 6,
+            distance: 50,
+            stroke: 'kick',
+            interval: 'sendoff',
+            intensity: 'EN3',
+            comment: 'Fast breaststroke kick'
+          }
+        ]
+      }
+    ]
+  },
+  butterfly: {
+    main: [
+      {
+        name: 'fly-broken',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 50,
+            stroke: 'FL',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: '25 fly / 25 free'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 25,
+            stroke: 'FL',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Fast fly, perfect stroke'
+          }
+        ]
+      }
+    ]
+  },
+  im: {
+    main: [
+      {
+        name: 'im-transitions',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 4,
+            distance: 100,
+            stroke: 'IM',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Reverse IM order'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 50,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'EN3',
+            comment: 'Transitions: fly-back, back-breast, breast-free'
+          }
+        ]
+      }
+    ]
+  },
+  'distance-free': {
+    main: [
+      {
+        name: 'long-broken',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 3,
+            distance: 1000,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'EN2',
+            comment: 'Steady 1000s, even pace'
+          }
+        ]
+      }
+    ]
+  },
+  'race-pace': {
+    main: [
+      {
+        name: 'broken-race',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 6,
+            distance: 100,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP1',
+            comment: 'Broken at the 50, 10 seconds rest'
+          },
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 25,
+            stroke: 'FR',
+            interval: 'sendoff',
+            intensity: 'SP2',
+            comment: 'Race tempo, fast breakouts'
+          }
+        ]
+      }
+    ]
+  },
+  recovery: {
+    main: [
+      {
+        name: 'easy-mix',
+        lines: [
+          {
+            section: 'main',
+            baseReps: 8,
+            distance: 100,
+            stroke: 'choice',
+            interval: 'sendoff',
+            intensity: 'REC',
+            comment: 'Easy mixed strokes'
+          }
+        ]
+      }
+    ]
+  }
 };
@@ -27,50 +27,254 @@ export type Intensity =
   | 'fast'
   | string;
 
+export type ZoneId =
+  | 'REC'
+  | 'EN1'
+  | 'EN2'
+  | 'EN3'
+  | 'SP1'
+  | 'SP2'
+  | 'SP3'
+  | string;
+
+export interface ZoneRange {
+  min: number;
+  max: number;
+}
+
+export interface ZoneDefinition {
+  id: ZoneId;
+  label: string;
+  rpe?: ZoneRange;
+  heartRate?: ZoneRange;
+}
+
+export interface ZoneModel {
+  zones: ZoneDefinition[];
+  aliases: Record<string, ZoneId>;
+}
+
+export interface StrokeDictionary {
+  locales: string[];
+  aliases: Record<string, Stroke>;
+}
+
+export type Equipment =
+  | 'fins'
+  | 'paddles'
+  | 'buoy'
+  | 'snorkel'
+  | 'board'
+  | 'band'
+  | string;
+
+export type Modifier =
+  | 'pull'
+  | 'kick'
+  | 'drill'
+  | 'swim'
+  | 'underwater'
+  | 'no-breath'
+  | 'hypoxic'
+  | 'max-distance'
+  | string;
+
+export type Activity = 'swim' | 'kick' | 'pull' | 'drill';
+
+export type DistanceUnit = 'm' | 'yd';
+
 export interface WorkoutHeader {
+  poolLength?: number;
+  poolUnit?: DistanceUnit;
   poolLengthMeters?: number;
   plannedDurationMinutes?: number;
   title?: string;
   focus?: string;
   profile?: string;
+  variables?: Record<string, number>;
+  groups?: string[];
+}
+
+export interface RepeatBlockRef {
+  lineNumber: number;
+  rounds: number;
+  round: number;
+}
+
+export type ProgressionKind = 'descend' | 'build';
+
+export interface Progression {
+  kind: ProgressionKind;
+  fromRep: number;
+  toRep: number;
+}
+
+export interface LadderRef {
+  distances: number[];
+  step: number;
+}
+
+export interface GroupVariant {
+  reps: number;
+  sendOffSeconds?: number;
 }
 
 export interface SetInterval {
   section: SectionName;
   reps: number;
+  distance: number;
+  unit: DistanceUnit;
   distanceMeters: number;
+  distanceEstimated?: boolean;
+  durationSeconds?: number;
   stroke: Stroke;
+  strokeToken?: string;
+  strokeSplitDistance?: number;
   sendOffSeconds?: number;
+  sendOffPer100Seconds?: number;
+  sendOffExpression?: string;
+  restSeconds?: number;
   intensity?: Intensity;
+  zone?: ZoneId;
+  equipment?: Equipment[];
+  modifiers?: Modifier[];
+  progression?: Progression;
+  ladder?: LadderRef;
+  blocks?: RepeatBlockRef[];
+  groups?: Record<string, GroupVariant>;
   raw: string;
   lineNumber: number;
 }
 
 export interface WorkoutTotals {
+  unit: DistanceUnit;
+  totalDistance: number;
   totalDistanceMeters: number;
+  estimatedDistanceMeters?: number;
   distanceBySection: Record<SectionName, number>;
   distanceByIntensity: Record<string, number>;
+  distanceByZone: Record<string, number>;
+  distanceByStroke: Record<string, number>;
+  distanceByActivity: Record<string, number>;
   estimatedMinutes?: number;
+  byGroup?: Record<string, WorkoutTotals>;
 }
 
-export interface ParseError {
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'unrecognized-set'
+  | 'invalid-reps'
+  | 'invalid-distance'
+  | 'invalid-ladder'
+  | 'invalid-time'
+  | 'invalid-rest'
+  | 'invalid-progression-range'
+  | 'unknown-stroke'
+  | 'empty-section'
+  | 'implicit-section'
+  | 'invalid-pool'
+  | 'invalid-duration'
+  | 'invalid-repeat-count'
+  | 'unmatched-block-close'
+  | 'empty-block'
+  | 'unclosed-block'
+  | 'duration-mismatch'
+  | 'missing-pool'
+  | 'off-pool-distance'
+  | 'implausible-send-off'
+  | 'undefined-variable'
+  | 'invalid-expression'
+  | 'unknown-intensity'
+  | 'group-count-mismatch';
+
+export interface DiagnosticSuggestion {
+  message: string;
+  replacement: string;
+}
+
+export interface Diagnostic {
   lineNumber: number;
+  column?: number;
+  endColumn?: number;
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
   message: string;
+  suggestion?: DiagnosticSuggestion;
 }
 
+export type ParseError = Diagnostic;
+
 export interface InterpretedWorkout {
   header: WorkoutHeader;
+  unit: DistanceUnit;
   sets: SetInterval[];
   totals: WorkoutTotals;
-  errors: ParseError[];
-  warnings: string[];
+  equipment: Equipment[];
+  groups?: string[];
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
 }
 
+export type ClockAlignment = 'none' | 'top' | 'half';
+
+export interface TimelineOptions {
+  align?: ClockAlignment;
+  restBetweenSetsSeconds?: number;
+}
+
+export interface TimelineRep {
+  setIndex: number;
+  lineNumber: number;
+  section: SectionName;
+  rep: number;
+  distance: number;
+  stroke: Stroke;
+  startSeconds: number;
+  durationSeconds: number;
+  clock: string;
+}
+
+export interface WorkoutTimeline {
+  align: ClockAlignment;
+  restBetweenSetsSeconds: number;
+  reps: TimelineRep[];
+  totalSeconds: number;
+}
+
+export const FOCUSES = [
+  'aerobic',
+  'threshold',
+  'sprint',
+  'technique',
+  'backstroke',
+  'breaststroke',
+  'butterfly',
+  'im',
+  'distance-free',
+  'race-pace',
+  'recovery'
+] as const;
+export type Focus = typeof FOCUSES[number];
+
+export const PROFILES = ['novice', 'intermediate', 'elite'] as const;
+export type Profile = typeof PROFILES[number];
+
 export interface GenerateConstraints {
-  poolLengthMeters: number;
+  // Pool length in poolUnit: 25 for a 25yd pool, not its length in meters.
+  poolLength: number;
+  poolUnit?: DistanceUnit;
   targetDistanceMeters?: number;
   targetDurationMinutes?: number;
-  focus: 'aerobic' | 'threshold' | 'sprint' | 'technique';
-  profile: 'novice' | 'intermediate' | 'elite';
+  distanceToleranceMeters?: number;
+  seed?: number;
+  cssPer100Seconds?: number;
+  basePacePer100Seconds?: number;
+  targetEvent?: string;
+  equipment?: Equipment[];
+  lanes?: number;
+  paceClock?: boolean;
+  focus: Focus;
+  profile: Profile;
   title?: string;
 }
\ No newline at end of file
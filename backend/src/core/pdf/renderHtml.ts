@@ -1,29 +1,25 @@
-import { InterpretedWorkout, SetInterval } from '../models/WorkoutTypes';
+import { InterpretedWorkout, SetInterval, WorkoutTimeline } from '../models/WorkoutTypes';
 import { formatSecondsAsTime } from '../dsl/parseTime';
 
 export type PdfViewMode = 'coach' | 'swimmer';
 
+export interface WorkoutSheet {
+  workout: InterpretedWorkout;
+  timeline?: WorkoutTimeline;
+}
+
 export function renderWorkoutHtml(
   workout: InterpretedWorkout,
-  view: PdfViewMode
+  view: PdfViewMode,
+  timeline?: WorkoutTimeline
 ): string {
-  const title = workout.header.title || 'SwimSet Workout';
-  const pool = workout.header.poolLengthMeters
-    ? `${workout.header.poolLengthMeters}m pool`
-    : 'Pool length: N/A';
-
-  const totalDistance = workout.totals.totalDistanceMeters ?? 0;
-  const focus = workout.header.focus || 'Unspecified focus';
-  const profile = workout.header.profile || 'Unspecified profile';
-
-  const estimated = workout.totals.estimatedMinutes
-    ? `${workout.totals.estimatedMinutes.toFixed(1)} min`
-    : 'N/A';
-
-  const sections = groupSetsBySection(workout.sets);
+  return renderWorkoutSheetsHtml([{ workout, timeline }], view);
+}
 
-  const sectionsHtml = Object.entries(sections)
-    .map(([sectionName, sets]) => renderSection(sectionName, sets, workout, view))
+export function renderWorkoutSheetsHtml(sheets: WorkoutSheet[], view: PdfViewMode): string {
+  const title = sheets[0]?.workout.header.title || 'SwimSet Workout';
+  const pagesHtml = sheets
+    .map((sheet) => renderPage(sheet.workout, view, sheet.timeline))
     .join('\n');
 
   return `<!DOCTYPE html>
@@ -53,6 +49,10 @@ export function renderWorkoutHtml(
       margin: 0 auto;
     }
 
+    .page + .page {
+      page-break-before: always;
+    }
+
     h1 {
       font-size: 28px;
       margin-bottom: 4px;
@@ -80,6 +80,25 @@ export function renderWorkoutHtml(
       color: ${view === 'coach' ? '#b91c1c' : '#065f46'};
     }
 
+    .equipment {
+      margin-bottom: 16px;
+      padding: 8px 12px;
+      border-radius: 8px;
+      border: 1px solid #bfdbfe;
+      background-color: #eff6ff;
+      font-size: 13px;
+    }
+
+    .equipment-item {
+      display: inline-block;
+      margin-left: 8px;
+    }
+
+    .equipment-item::before {
+      content: '\\2610';
+      margin-right: 4px;
+    }
+
     .section {
       margin-bottom: 16px;
       padding: 12px 12px 8px;
@@ -138,25 +157,103 @@ export function renderWorkoutHtml(
   </style>
 </head>
 <body>
-  <div class="page">
-    <h1>${escapeHtml(title)}</h1>
-    <div class="meta">
-      <span>${escapeHtml(pool)}</span>
-      <span>Total: ${totalDistance} m</span>
-      <span>Focus: ${escapeHtml(focus)}</span>
-      <span>Profile: ${escapeHtml(profile)}</span>
-      <span>Est: ${escapeHtml(estimated)}</span>
-      <span class="view-badge">${view === 'coach' ? 'Coach view' : 'Swimmer view'}</span>
-    </div>
+${pagesHtml}
+</body>
+</html>`;
+}
 
-    ${sectionsHtml}
+function renderPage(
+  workout: InterpretedWorkout,
+  view: PdfViewMode,
+  timeline?: WorkoutTimeline
+): string {
+  const title = workout.header.title || 'SwimSet Workout';
+  const unit = workout.unit;
+  const pool = workout.header.poolLength
+    ? `${workout.header.poolLength}${unit} pool`
+    : 'Pool length: N/A';
 
-    <div class="footer">
-      Generated by SwimSet
-    </div>
+  const approx = workout.totals.estimatedDistanceMeters ? '~' : '';
+  const totalDistance =
+    unit === 'm'
+      ? `${approx}${workout.totals.totalDistance} m`
+      : `${approx}${workout.totals.totalDistance} ${unit} (${workout.totals.totalDistanceMeters} m)`;
+  const focus = workout.header.focus || 'Unspecified focus';
+  const profile = workout.header.profile || 'Unspecified profile';
+
+  const estimated = workout.totals.estimatedMinutes
+    ? `${workout.totals.estimatedMinutes.toFixed(1)} min`
+    : 'N/A';
+
+  const strokeBreakdown = formatBreakdown(workout.totals.distanceByStroke, workout.unit);
+  const activityBreakdown = formatBreakdown(workout.totals.distanceByActivity, workout.unit);
+  const groupsHtml = workout.groups
+    ? `<div class="meta">
+    <span>Lanes: ${escapeHtml(formatGroupTotals(workout))}</span>
+  </div>`
+    : '';
+
+  const sections = groupSetsBySection(workout.sets);
+
+  const equipmentHtml =
+    workout.equipment.length > 0
+      ? `<div class="equipment">
+      <strong>Bring to deck:</strong>
+      ${workout.equipment.map((item) => `<span class="equipment-item">${escapeHtml(item)}</span>`).join('\n      ')}
+    </div>`
+      : '';
+
+  const leaveAt = view === 'coach' && timeline ? buildLeaveAtLabels(workout, timeline) : undefined;
+
+  const sectionsHtml = Object.entries(sections)
+    .map(([sectionName, sets]) => renderSection(sectionName, sets, workout, view, leaveAt))
+    .join('\n');
+
+  return `<div class="page">
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">
+    <span>${escapeHtml(pool)}</span>
+    <span>Total: ${escapeHtml(totalDistance)}</span>
+    <span>Focus: ${escapeHtml(focus)}</span>
+    <span>Profile: ${escapeHtml(profile)}</span>
+    <span>Est: ${escapeHtml(estimated)}</span>
+    <span class="view-badge">${view === 'coach' ? 'Coach view' : 'Swimmer view'}</span>
   </div>
-</body>
-</html>`;
+  <div class="meta">
+    <span>Strokes: ${escapeHtml(strokeBreakdown)}</span>
+    <span>Activity: ${escapeHtml(activityBreakdown)}</span>
+  </div>
+  ${groupsHtml}
+
+  ${equipmentHtml}
+
+  ${sectionsHtml}
+
+  <div class="footer">
+    Generated by SwimSet
+  </div>
+</div>`;
+}
+
+function formatBreakdown(breakdown: Record<string, number>, unit: string): string {
+  const entries = Object.entries(breakdown).filter(([, distance]) => distance > 0);
+  if (entries.length === 0) return 'N/A';
+
+  return entries
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, distance]) => `${key} ${Math.round(distance)} ${unit}`)
+    .join(', ');
+}
+
+function formatGroupTotals(workout: InterpretedWorkout): string {
+  return (workout.groups ?? [])
+    .map((group) => {
+      const totals = workout.totals.byGroup?.[group];
+      if (!totals) return group;
+      const minutes = totals.estimatedMinutes ? `, ${totals.estimatedMinutes.toFixed(1)} min` : '';
+      return `${group} ${totals.totalDistance} ${workout.unit}${minutes}`;
+    })
+    .join(' · ');
 }
 
 function groupSetsBySection(sets: SetInterval[]): Record<string, SetInterval[]> {
@@ -174,28 +271,31 @@ function renderSection(
   sectionName: string,
   sets: SetInterval[],
   workout: InterpretedWorkout,
-  view: PdfViewMode
+  view: PdfViewMode,
+  leaveAt?: Map<SetInterval, string>
 ): string {
   const sectionDistance = workout.totals.distanceBySection[sectionName] ?? 0;
 
   const headerHtml = `
     <div class="section-title">
       <h2>${escapeHtml(sectionName)}</h2>
-      <span class="section-distance">${sectionDistance} m</span>
+      <span class="section-distance">${sectionDistance} ${workout.unit}</span>
     </div>
   `;
 
   const rowsHtml = sets
-    .map((set) => renderSetRow(set, view))
+    .filter((set) => !set.ladder || set.ladder.step === 1)
+    .map((set) => renderSetRow(set, view, leaveAt))
     .join('\n');
 
   const tableHeaders =
     view === 'coach'
       ? `
         <tr>
+          ${leaveAt ? '<th>Leave at</th>' : ''}
           <th>Set</th>
           <th>Stroke</th>
-          <th>Send-off</th>
+          <th>Send-off / Rest</th>
           <th>Intensity</th>
         </tr>
       `
@@ -222,17 +322,23 @@ function renderSection(
   `;
 }
 
-function renderSetRow(set: SetInterval, view: PdfViewMode): string {
-  const baseLabel = `${set.reps} x ${set.distanceMeters} m`;
-  const intensity = set.intensity ?? '';
-  const sendOff = set.sendOffSeconds ? formatSecondsAsTime(set.sendOffSeconds) : '';
+function renderSetRow(
+  set: SetInterval,
+  view: PdfViewMode,
+  leaveAt?: Map<SetInterval, string>
+): string {
+  const baseLabel = formatSetLabel(set);
+  const intensity = [formatIntensity(set), formatProgression(set)].filter(Boolean).join(' ');
+  const interval = formatInterval(set);
+  const stroke = formatStroke(set);
 
   if (view === 'coach') {
     return `
       <tr>
+        ${leaveAt ? `<td>${escapeHtml(leaveAt.get(set) ?? '')}</td>` : ''}
         <td>${escapeHtml(baseLabel)}</td>
-        <td>${escapeHtml(set.stroke)}</td>
-        <td>${escapeHtml(sendOff ?? '')}</td>
+        <td>${escapeHtml(stroke)}</td>
+        <td>${escapeHtml(interval)}</td>
         <td>${escapeHtml(intensity)}</td>
       </tr>
     `;
@@ -242,12 +348,77 @@ function renderSetRow(set: SetInterval, view: PdfViewMode): string {
   return `
     <tr>
       <td>${escapeHtml(baseLabel)}</td>
-      <td>${escapeHtml(set.stroke)}</td>
-      <td>${escapeHtml(sendOff ?? '')}</td>
+      <td>${escapeHtml(stroke)}</td>
+      <td>${escapeHtml(interval)}</td>
     </tr>
   `;
 }
 
+function buildLeaveAtLabels(
+  workout: InterpretedWorkout,
+  timeline: WorkoutTimeline
+): Map<SetInterval, string> {
+  const labels = new Map<SetInterval, string>();
+  for (const rep of timeline.reps) {
+    const set = workout.sets[rep.setIndex];
+    if (!set || labels.has(set)) continue;
+    labels.set(set, `${formatSecondsAsTime(rep.startSeconds)} (${rep.clock})`);
+  }
+  return labels;
+}
+
+function formatSetLabel(set: SetInterval): string {
+  if (set.durationSeconds !== undefined) {
+    return `${set.reps} x ${formatSecondsAsTime(set.durationSeconds)} (~${set.distance} ${set.unit})`;
+  }
+  if (set.ladder) {
+    return `${set.reps > 1 ? `${set.reps} x ` : ''}${set.ladder.distances.join('-')} ${set.unit}`;
+  }
+  const groupReps = Object.values(set.groups ?? {}).map((variant) => variant.reps);
+  const reps = new Set(groupReps).size > 1 ? groupReps.join('/') : `${set.reps}`;
+  return `${reps} x ${set.distance} ${set.unit}`;
+}
+
+function formatStroke(set: SetInterval): string {
+  const label = [set.stroke, ...(set.modifiers ?? [])].join(' ');
+  if (!set.equipment || set.equipment.length === 0) {
+    return label;
+  }
+  return `${label} w/ ${set.equipment.join(' + ')}`;
+}
+
+function formatInterval(set: SetInterval): string {
+  const groupSendOffs = Object.values(set.groups ?? {})
+    .map((variant) => variant.sendOffSeconds)
+    .filter((seconds): seconds is number => seconds !== undefined);
+  if (new Set(groupSendOffs).size > 1) {
+    return `@${groupSendOffs.map((seconds) => formatSecondsAsTime(seconds)).join(' / ')}`;
+  }
+  if (set.sendOffPer100Seconds !== undefined) {
+    return `@${formatSecondsAsTime(set.sendOffPer100Seconds)}/100`;
+  }
+  if (set.sendOffSeconds) {
+    return `@${formatSecondsAsTime(set.sendOffSeconds)}`;
+  }
+  if (set.restSeconds !== undefined) {
+    return `Rest ${formatSecondsAsTime(set.restSeconds)}`;
+  }
+  return '';
+}
+
+function formatIntensity(set: SetInterval): string {
+  if (!set.intensity) return '';
+  if (!set.zone || set.zone.toLowerCase() === set.intensity.toLowerCase()) return set.intensity;
+  return `${set.intensity} (${set.zone})`;
+}
+
+function formatProgression(set: SetInterval): string {
+  if (!set.progression) return '';
+  const label = set.progression.kind === 'descend' ? 'desc' : 'build';
+  const { fromRep, toRep } = set.progression;
+  return fromRep === toRep ? label : `${label} ${fromRep}-${toRep}`;
+}
+
 function escapeHtml(value: string): string {
   return value
     .replace(/&/g, '&amp;')
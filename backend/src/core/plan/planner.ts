@@ -0,0 +1,200 @@
+import { DistanceUnit, Focus, Profile } from '../models/WorkoutTypes';
+import { generateWorkout } from '../generator/generator';
+
+export type WeekKind = 'build' | 'recovery' | 'taper' | 'race' | 'transition';
+
+export interface PlanParameters {
+  startDate: string;
+  endDate: string;
+  meetDate: string;
+  sessionsPerWeek: number;
+  peakWeeklyMeters: number;
+  // In poolUnit despite the name (the request and stored field predate yard
+  // pools); convert with toMeters before treating it as meters.
+  poolLengthMeters: number;
+  poolUnit?: DistanceUnit;
+  profile: Profile;
+  focus?: Focus;
+  targetEvent?: string;
+  seed: number;
+}
+
+export interface PlanSession {
+  session: number;
+  date: string;
+  focus: Focus;
+  targetDistanceMeters: number;
+  seed: number;
+  title: string;
+  dsl: string;
+  distanceMeters: number;
+  differenceMeters: number;
+  withinTarget: boolean;
+  estimatedMinutes: number;
+  // Set once the session has been saved as a workout.
+  workoutId?: string;
+}
+
+export interface PlanWeek {
+  week: number;
+  startDate: string;
+  kind: WeekKind;
+  loadFactor: number;
+  volumeMeters: number;
+  revision: number;
+  sessions: PlanSession[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_WEEK = 7;
+const MAX_SEED = 2 ** 31;
+const MESOCYCLE_WEEKS = 4;
+const START_LOAD = 0.7;
+const RECOVERY_LOAD = 0.6;
+const TAPER_LOADS = [0.75, 0.55];
+const RACE_LOAD = 0.4;
+const TRANSITION_LOAD = 0.5;
+const LONG_TAPER_MIN_WEEKS = 8;
+const SESSION_ROUNDING_METERS = 100;
+
+const FOCUS_ROTATION: Record<WeekKind, Focus[]> = {
+  build: ['aerobic', 'threshold', 'technique', 'sprint', 'aerobic', 'threshold', 'recovery'],
+  recovery: ['recovery', 'technique', 'aerobic'],
+  taper: ['race-pace', 'aerobic', 'sprint', 'recovery'],
+  race: ['race-pace', 'recovery'],
+  transition: ['recovery', 'technique', 'aerobic']
+};
+
+export function parsePlanDate(value: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || formatPlanDate(date) !== value) return undefined;
+  return date;
+}
+
+export function planWeekCount(params: PlanParameters): number {
+  return Math.floor(daysBetween(params.startDate, params.endDate) / DAYS_PER_WEEK) + 1;
+}
+
+export function buildPlan(params: PlanParameters, revisions: number[] = []): PlanWeek[] {
+  return Array.from({ length: planWeekCount(params) }, (_, index) =>
+    buildPlanWeek(params, index + 1, revisions[index] ?? 0)
+  );
+}
+
+export function buildPlanWeek(params: PlanParameters, week: number, revision = 0): PlanWeek {
+  const kind = weekKind(params, week);
+  const loadFactor = weekLoadFactor(params, week, kind);
+  const volumeMeters = Math.round(params.peakWeeklyMeters * loadFactor);
+  const startDate = addDays(params.startDate, (week - 1) * DAYS_PER_WEEK);
+  const weekSeed = deriveSeed(params.seed, week, revision);
+
+  const rotation = FOCUS_ROTATION[kind].map((focus) =>
+    focus === 'technique' && params.focus ? params.focus : focus
+  );
+  const sessionMeters = roundTo(volumeMeters / params.sessionsPerWeek, SESSION_ROUNDING_METERS);
+
+  const sessions = Array.from({ length: params.sessionsPerWeek }, (_, index): PlanSession => {
+    const focus = rotation[index % rotation.length];
+    const seed = deriveSeed(weekSeed, index + 1, 0);
+    const title = `Week ${week} · Session ${index + 1}`;
+    const workout = generateWorkout({
+      poolLength: params.poolLengthMeters,
+      poolUnit: params.poolUnit,
+      targetDistanceMeters: sessionMeters,
+      seed,
+      focus,
+      profile: params.profile,
+      targetEvent: focus === 'race-pace' ? params.targetEvent : undefined,
+      title
+    });
+
+    // Sessions shorter than a template's smallest version overshoot the target;
+    // report it per session instead of hiding it in the weekly total.
+    const fit = workout.distance;
+    return {
+      session: index + 1,
+      date: addDays(startDate, Math.floor((index * DAYS_PER_WEEK) / params.sessionsPerWeek)),
+      focus,
+      targetDistanceMeters: sessionMeters,
+      seed,
+      title,
+      dsl: workout.dsl,
+      distanceMeters: workout.interpreted.totals.totalDistanceMeters,
+      differenceMeters: fit?.differenceMeters ?? 0,
+      withinTarget: fit?.withinTolerance ?? true,
+      estimatedMinutes: workout.interpreted.totals.estimatedMinutes ?? 0
+    };
+  });
+
+  return { week, startDate, kind, loadFactor, volumeMeters, revision, sessions };
+}
+
+function weekKind(params: PlanParameters, week: number): WeekKind {
+  const raceWeek = meetWeek(params);
+  if (week === raceWeek) return 'race';
+  if (week > raceWeek) return 'transition';
+  if (raceWeek - week <= taperWeeks(raceWeek)) return 'taper';
+  return week % MESOCYCLE_WEEKS === 0 ? 'recovery' : 'build';
+}
+
+function weekLoadFactor(params: PlanParameters, week: number, kind: WeekKind): number {
+  const raceWeek = meetWeek(params);
+
+  switch (kind) {
+    case 'race':
+      return RACE_LOAD;
+    case 'transition':
+      return TRANSITION_LOAD;
+    case 'taper':
+      return TAPER_LOADS[TAPER_LOADS.length - (raceWeek - week)];
+    default: {
+      const peakWeek = peakBuildWeek(raceWeek);
+      const progress = peakWeek > 1 ? (week - 1) / (peakWeek - 1) : 1;
+      const load = START_LOAD + (1 - START_LOAD) * Math.min(1, progress);
+      return Math.round((kind === 'recovery' ? load * RECOVERY_LOAD : load) * 100) / 100;
+    }
+  }
+}
+
+function meetWeek(params: PlanParameters): number {
+  return Math.floor(daysBetween(params.startDate, params.meetDate) / DAYS_PER_WEEK) + 1;
+}
+
+// The last full-load week before the taper. When the final pre-taper week falls
+// on a recovery week, the ramp peaks the week before it.
+function peakBuildWeek(raceWeek: number): number {
+  const lastWeek = Math.max(1, raceWeek - taperWeeks(raceWeek) - 1);
+  return lastWeek > 1 && lastWeek % MESOCYCLE_WEEKS === 0 ? lastWeek - 1 : lastWeek;
+}
+
+function taperWeeks(raceWeek: number): number {
+  if (raceWeek <= 2) return 0;
+  return raceWeek > LONG_TAPER_MIN_WEEKS ? TAPER_LOADS.length : 1;
+}
+
+function deriveSeed(seed: number, index: number, revision: number): number {
+  let value = (seed ^ Math.imul(index, 0x9e3779b1) ^ Math.imul(revision + 1, 0x85ebca6b)) >>> 0;
+  value = Math.imul(value ^ (value >>> 16), 0x45d9f3b) >>> 0;
+  return (value ^ (value >>> 16)) % MAX_SEED;
+}
+
+function daysBetween(from: string, to: string): number {
+  const start = parsePlanDate(from)?.getTime() ?? 0;
+  const end = parsePlanDate(to)?.getTime() ?? 0;
+  return Math.round((end - start) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  const base = parsePlanDate(date)?.getTime() ?? 0;
+  return formatPlanDate(new Date(base + days * DAY_MS));
+}
+
+function formatPlanDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
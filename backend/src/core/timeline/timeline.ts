@@ -0,0 +1,86 @@
+import {
+  ClockAlignment,
+  InterpretedWorkout,
+  SetInterval,
+  TimelineOptions,
+  TimelineRep,
+  WorkoutTimeline
+} from '../models/WorkoutTypes';
+import { DEFAULT_PACE_SECONDS_PER_100 } from '../dsl/interpreter';
+
+const ALIGNMENT_SECONDS: Record<ClockAlignment, number> = {
+  none: 1,
+  top: 60,
+  half: 30
+};
+
+export const CLOCK_ALIGNMENTS = Object.keys(ALIGNMENT_SECONDS) as ClockAlignment[];
+
+export function buildTimeline(workout: InterpretedWorkout, options: TimelineOptions = {}): WorkoutTimeline {
+  const align = options.align ?? 'none';
+  const restBetweenSetsSeconds = Math.max(0, options.restBetweenSetsSeconds ?? 0);
+  const reps: TimelineRep[] = [];
+
+  let clockSeconds = 0;
+  let previousDeparture: number | undefined;
+
+  workout.sets.forEach((set, setIndex) => {
+    const departure = departureLine(set);
+    if (departure !== previousDeparture) {
+      if (setIndex > 0) {
+        clockSeconds += restBetweenSetsSeconds;
+      }
+      clockSeconds = alignTo(clockSeconds, ALIGNMENT_SECONDS[align]);
+      previousDeparture = departure;
+    }
+
+    const repSeconds = repDurationSeconds(set);
+    for (let rep = 1; rep <= set.reps; rep += 1) {
+      reps.push({
+        setIndex,
+        lineNumber: set.lineNumber,
+        section: set.section,
+        rep,
+        distance: set.distance,
+        stroke: set.stroke,
+        startSeconds: clockSeconds,
+        durationSeconds: repSeconds,
+        clock: formatClock(clockSeconds)
+      });
+      clockSeconds += repSeconds;
+    }
+  });
+
+  return {
+    align,
+    restBetweenSetsSeconds,
+    reps,
+    totalSeconds: clockSeconds
+  };
+}
+
+// Ladder steps and repeat-block rounds swim straight through: only the line or
+// outermost block that starts them waits for the clock.
+function departureLine(set: SetInterval): number {
+  return set.blocks?.[0]?.lineNumber ?? set.lineNumber;
+}
+
+function repDurationSeconds(set: SetInterval): number {
+  if (set.sendOffSeconds !== undefined) {
+    return set.sendOffSeconds;
+  }
+  if (set.durationSeconds !== undefined) {
+    return set.durationSeconds + (set.restSeconds ?? 0);
+  }
+
+  const swimSeconds = (set.distanceMeters / 100) * DEFAULT_PACE_SECONDS_PER_100;
+  return Math.round(swimSeconds) + (set.restSeconds ?? 0);
+}
+
+function alignTo(seconds: number, step: number): number {
+  return Math.ceil(seconds / step) * step;
+}
+
+function formatClock(seconds: number): string {
+  return `:${(seconds % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,108 @@
+import { QueryResultRow } from 'pg';
+import { query } from './pool';
+import { PlanParameters, PlanWeek } from '../core/plan/planner';
+
+export interface PlanRow extends QueryResultRow {
+  id: string;
+  parameters: PlanParameters;
+  weeks: PlanWeek[];
+  weekRevisions: number[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export async function createPlan(parameters: PlanParameters, weeks: PlanWeek[]): Promise<PlanRow> {
+  const result = await query<PlanRow>(
+    `
+    INSERT INTO training_plans (
+      parameters,
+      weeks,
+      week_revisions
+    )
+    VALUES ($1, $2, $3)
+    RETURNING
+      id,
+      parameters,
+      weeks,
+      week_revisions AS "weekRevisions",
+      created_at     AS "createdAt",
+      updated_at     AS "updatedAt"
+    `,
+    [JSON.stringify(parameters), JSON.stringify(weeks), JSON.stringify(weeks.map(() => 0))]
+  );
+
+  return result.rows[0];
+}
+
+export async function getPlanById(id: string): Promise<PlanRow | null> {
+  const result = await query<PlanRow>(
+    `
+    SELECT
+      id,
+      parameters,
+      weeks,
+      week_revisions AS "weekRevisions",
+      created_at     AS "createdAt",
+      updated_at     AS "updatedAt"
+    FROM training_plans
+    WHERE id = $1
+    `,
+    [id]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Bumps one week's counter in place so concurrent regenerations each get
+// their own revision. Returns the new revision, or null if the plan is gone.
+export async function incrementPlanWeekRevision(
+  id: string,
+  weekIndex: number
+): Promise<number | null> {
+  const result = await query<{ revision: number }>(
+    `
+    UPDATE training_plans
+    SET
+      week_revisions = jsonb_set(
+        week_revisions,
+        ARRAY[$2::int::text],
+        to_jsonb(COALESCE((week_revisions->>$2::int)::int, 0) + 1)
+      ),
+      updated_at     = now()
+    WHERE id = $1
+    RETURNING (week_revisions->>$2::int)::int AS revision
+    `,
+    [id, weekIndex]
+  );
+
+  return result.rows[0]?.revision ?? null;
+}
+
+// Stores a regenerated week, unless a newer regeneration of the same week has
+// bumped the revision in the meantime (then returns null).
+export async function updatePlanWeek(
+  id: string,
+  weekIndex: number,
+  week: PlanWeek
+): Promise<PlanRow | null> {
+  const result = await query<PlanRow>(
+    `
+    UPDATE training_plans
+    SET
+      weeks      = jsonb_set(weeks, ARRAY[$2::int::text], $3::jsonb),
+      updated_at = now()
+    WHERE id = $1
+      AND (week_revisions->>$2::int)::int = $4
+    RETURNING
+      id,
+      parameters,
+      weeks,
+      week_revisions AS "weekRevisions",
+      created_at     AS "createdAt",
+      updated_at     AS "updatedAt"
+    `,
+    [id, weekIndex, JSON.stringify(week), week.revision]
+  );
+
+  return result.rows[0] ?? null;
+}
@@ -0,0 +1,165 @@
+import { QueryResultRow } from 'pg';
+import { query } from './pool';
+
+export interface TemplateRow extends QueryResultRow {
+  id: string;
+  name: string;
+  focus: string | null;
+  profile: string | null;
+  shorthand: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TemplateParams {
+  name: string;
+  focus?: string;
+  profile?: string;
+  shorthand: string;
+}
+
+interface ListTemplatesFilter {
+  focus?: string;
+  profile?: string;
+}
+
+export async function createTemplate(params: TemplateParams): Promise<TemplateRow> {
+  const { name, focus, profile, shorthand } = params;
+
+  const result = await query<TemplateRow>(
+    `
+    INSERT INTO workout_templates (
+      name,
+      focus,
+      profile,
+      shorthand
+    )
+    VALUES ($1, $2, $3, $4)
+    RETURNING
+      id,
+      name,
+      focus,
+      profile,
+      shorthand,
+      created_at AS "createdAt",
+      updated_at AS "updatedAt"
+    `,
+    [name, focus ?? null, profile ?? null, shorthand]
+  );
+
+  return result.rows[0];
+}
+
+export async function updateTemplateById(
+  id: string,
+  params: TemplateParams
+): Promise<TemplateRow | null> {
+  const { name, focus, profile, shorthand } = params;
+
+  const result = await query<TemplateRow>(
+    `
+    UPDATE workout_templates
+    SET
+      name       = $2,
+      focus      = $3,
+      profile    = $4,
+      shorthand  = $5,
+      updated_at = now()
+    WHERE id = $1
+    RETURNING
+      id,
+      name,
+      focus,
+      profile,
+      shorthand,
+      created_at AS "createdAt",
+      updated_at AS "updatedAt"
+    `,
+    [id, name, focus ?? null, profile ?? null, shorthand]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function getTemplateById(id: string): Promise<TemplateRow | null> {
+  const result = await query<TemplateRow>(
+    `
+    SELECT
+      id,
+      name,
+      focus,
+      profile,
+      shorthand,
+      created_at AS "createdAt",
+      updated_at AS "updatedAt"
+    FROM workout_templates
+    WHERE id = $1
+    `,
+    [id]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function listTemplates(filter: ListTemplatesFilter = {}): Promise<TemplateRow[]> {
+  const result = await query<TemplateRow>(
+    `
+    SELECT
+      id,
+      name,
+      focus,
+      profile,
+      shorthand,
+      created_at AS "createdAt",
+      updated_at AS "updatedAt"
+    FROM workout_templates
+    WHERE ($1::text IS NULL OR focus = $1)
+      AND ($2::text IS NULL OR profile = $2)
+    ORDER BY created_at DESC
+    `,
+    [filter.focus ?? null, filter.profile ?? null]
+  );
+
+  return result.rows;
+}
+
+export async function listTemplatesForGoal(
+  focus: string,
+  profile: string,
+  limit: number
+): Promise<TemplateRow[]> {
+  const result = await query<TemplateRow>(
+    `
+    SELECT
+      id,
+      name,
+      focus,
+      profile,
+      shorthand,
+      created_at AS "createdAt",
+      updated_at AS "updatedAt"
+    FROM workout_templates
+    WHERE focus = $1
+      AND (profile IS NULL OR profile = $2)
+    ORDER BY updated_at DESC
+    LIMIT $3
+    `,
+    [focus, profile, limit]
+  );
+
+  return result.rows;
+}
+
+export async function deleteTemplateById(id: string): Promise<boolean> {
+  const result = await query(
+    `
+    DELETE FROM workout_templates
+    WHERE id = $1
+    RETURNING id
+    `,
+    [id]
+  );
+
+  const rowCount = result.rowCount ?? 0;
+  return rowCount > 0;
+}
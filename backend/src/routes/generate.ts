@@ -1,16 +1,59 @@
 import { Router, Request, Response } from 'express';
-import { generateWorkoutDSL } from '../core/generator/generator';
-import { GenerateConstraints, InterpretedWorkout } from '../core/models/WorkoutTypes';
 import { interpretShorthand } from '../core/dsl/interpreter';
+import {
+  UserTemplate,
+  generateWorkoutCandidates,
+  parseRaceEvent,
+  userTemplateIssues
+} from '../core/generator/generator';
+import { normalizeEquipment } from '../core/dsl/tags';
+import { TemplateRow, getTemplateById, listTemplatesForGoal } from '../db/templateRepo';
+import {
+  DistanceUnit,
+  Equipment,
+  FOCUSES,
+  GenerateConstraints,
+  PROFILES
+} from '../core/models/WorkoutTypes';
 
 const router = Router();
 
-type GenerateRequestBody = GenerateConstraints;
+// The request keeps the "poolLengthMeters" name existing clients send, but like
+// GenerateConstraints.poolLength it is in poolUnit (25 for a 25yd pool).
+type GenerateRequestBody = Omit<GenerateConstraints, 'poolLength'> & {
+  poolLengthMeters: number;
+  templateId?: string;
+  candidates?: number;
+};
 
-const VALID_FOCUS: GenerateConstraints['focus'][] = ['aerobic', 'threshold', 'sprint', 'technique'];
-const VALID_PROFILE: GenerateConstraints['profile'][] = ['novice', 'intermediate', 'elite'];
+const VALID_POOL_UNIT: DistanceUnit[] = ['m', 'yd'];
+const MAX_CANDIDATES = 5;
+const MAX_TARGET_DISTANCE_METERS = 20000;
+const MAX_TAGGED_TEMPLATES = 20;
+const MIN_PACE_PER_100_SECONDS = 45;
+const MAX_PACE_PER_100_SECONDS = 300;
 
-router.post('/', (req: Request<unknown, unknown, GenerateRequestBody>, res: Response) => {
+// Tagged templates were validated when saved; one that no longer interprets
+// cleanly (e.g. after a DSL change) is left out rather than failing the request.
+function toUserTemplate(template: TemplateRow): UserTemplate[] {
+  const workout = interpretShorthand(template.shorthand);
+  return userTemplateIssues(workout).length === 0 ? [{ name: template.name, workout }] : [];
+}
+
+// Built-in generation must keep working without Postgres (or before the
+// workout_templates migration has run), so a failed lookup means no tagged
+// templates rather than a failed request.
+async function loadTaggedTemplates(focus: string, profile: string): Promise<UserTemplate[]> {
+  try {
+    const tagged = await listTemplatesForGoal(focus, profile, MAX_TAGGED_TEMPLATES);
+    return tagged.flatMap(toUserTemplate);
+  } catch (err) {
+    console.error('Error loading tagged templates:', err);
+    return [];
+  }
+}
+
+router.post('/', async (req: Request<unknown, unknown, GenerateRequestBody>, res: Response) => {
   const body = req.body;
 
   if (
@@ -24,15 +67,24 @@ router.post('/', (req: Request<unknown, unknown, GenerateRequestBody>, res: Resp
     });
   }
 
-  if (typeof body.focus !== 'string' || !VALID_FOCUS.includes(body.focus)) {
+  if (
+    body.poolUnit !== undefined &&
+    (typeof body.poolUnit !== 'string' || !VALID_POOL_UNIT.includes(body.poolUnit))
+  ) {
     return res.status(400).json({
-      error: `Invalid "focus". Expected one of: ${VALID_FOCUS.join(', ')}.`
+      error: `Invalid "poolUnit". Expected one of: ${VALID_POOL_UNIT.join(', ')}.`
     });
   }
 
-  if (typeof body.profile !== 'string' || !VALID_PROFILE.includes(body.profile)) {
+  if (typeof body.focus !== 'string' || !FOCUSES.includes(body.focus)) {
     return res.status(400).json({
-      error: `Invalid "profile". Expected one of: ${VALID_PROFILE.join(', ')}.`
+      error: `Invalid "focus". Expected one of: ${FOCUSES.join(', ')}.`
+    });
+  }
+
+  if (typeof body.profile !== 'string' || !PROFILES.includes(body.profile)) {
+    return res.status(400).json({
+      error: `Invalid "profile". Expected one of: ${PROFILES.join(', ')}.`
     });
   }
 
@@ -40,10 +92,11 @@ router.post('/', (req: Request<unknown, unknown, GenerateRequestBody>, res: Resp
     body.targetDistanceMeters !== undefined &&
     (typeof body.targetDistanceMeters !== 'number' ||
       !Number.isFinite(body.targetDistanceMeters) ||
-      body.targetDistanceMeters <= 0)
+      body.targetDistanceMeters <= 0 ||
+      body.targetDistanceMeters > MAX_TARGET_DISTANCE_METERS)
   ) {
     return res.status(400).json({
-      error: 'Invalid "targetDistanceMeters". If provided, it must be a positive number.'
+      error: `Invalid "targetDistanceMeters". If provided, it must be a positive number up to ${MAX_TARGET_DISTANCE_METERS}.`
     });
   }
 
@@ -58,22 +111,176 @@ router.post('/', (req: Request<unknown, unknown, GenerateRequestBody>, res: Resp
     });
   }
 
+  if (
+    body.distanceToleranceMeters !== undefined &&
+    (typeof body.distanceToleranceMeters !== 'number' ||
+      !Number.isFinite(body.distanceToleranceMeters) ||
+      body.distanceToleranceMeters < 0)
+  ) {
+    return res.status(400).json({
+      error: 'Invalid "distanceToleranceMeters". If provided, it must be a non-negative number.'
+    });
+  }
+
+  if (
+    body.seed !== undefined &&
+    (typeof body.seed !== 'number' || !Number.isInteger(body.seed) || body.seed < 0)
+  ) {
+    return res.status(400).json({
+      error: 'Invalid "seed". If provided, it must be a non-negative integer.'
+    });
+  }
+
+  for (const key of ['cssPer100Seconds', 'basePacePer100Seconds'] as const) {
+    const value = body[key];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        value < MIN_PACE_PER_100_SECONDS ||
+        value > MAX_PACE_PER_100_SECONDS)
+    ) {
+      return res.status(400).json({
+        error: `Invalid "${key}". If provided, it must be a number of seconds per 100 between ${MIN_PACE_PER_100_SECONDS} and ${MAX_PACE_PER_100_SECONDS}.`
+      });
+    }
+  }
+
+  if (
+    body.targetEvent !== undefined &&
+    (typeof body.targetEvent !== 'string' || !parseRaceEvent(body.targetEvent))
+  ) {
+    return res.status(400).json({
+      error:
+        'Invalid "targetEvent". If provided, it must be a race distance and stroke such as "200 BK" or "100 FL".'
+    });
+  }
+
+  if (
+    body.equipment !== undefined &&
+    (!Array.isArray(body.equipment) ||
+      !body.equipment.every((item) => typeof item === 'string' && normalizeEquipment(item)))
+  ) {
+    return res.status(400).json({
+      error: 'Invalid "equipment". If provided, it must be an array of equipment names (e.g., ["fins", "board"]).'
+    });
+  }
+
+  if (
+    body.lanes !== undefined &&
+    (typeof body.lanes !== 'number' || !Number.isInteger(body.lanes) || body.lanes < 1)
+  ) {
+    return res.status(400).json({
+      error: 'Invalid "lanes". If provided, it must be a positive integer.'
+    });
+  }
+
+  if (body.paceClock !== undefined && typeof body.paceClock !== 'boolean') {
+    return res.status(400).json({
+      error: 'Invalid "paceClock". If provided, it must be a boolean.'
+    });
+  }
+
+  if (
+    body.templateId !== undefined &&
+    (typeof body.templateId !== 'string' || body.templateId.trim().length === 0)
+  ) {
+    return res.status(400).json({
+      error: 'Invalid "templateId". If provided, it must be a non-empty string.'
+    });
+  }
+
+  if (
+    body.candidates !== undefined &&
+    (typeof body.candidates !== 'number' ||
+      !Number.isInteger(body.candidates) ||
+      body.candidates < 1 ||
+      body.candidates > MAX_CANDIDATES)
+  ) {
+    return res.status(400).json({
+      error: `Invalid "candidates". If provided, it must be an integer between 1 and ${MAX_CANDIDATES}.`
+    });
+  }
+
   try {
+    let userTemplate: UserTemplate | undefined;
+    let taggedTemplates: UserTemplate[] = [];
+    if (body.templateId !== undefined) {
+      const template = await getTemplateById(body.templateId);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found.' });
+      }
+
+      const workout = interpretShorthand(template.shorthand);
+      const issues = userTemplateIssues(workout);
+      if (issues.length > 0) {
+        return res.status(400).json({ error: 'Template shorthand is not valid.', issues });
+      }
+
+      userTemplate = { name: template.name, workout };
+    } else {
+      taggedTemplates = await loadTaggedTemplates(body.focus, body.profile);
+    }
+
     const constraints: GenerateConstraints = {
-      poolLengthMeters: body.poolLengthMeters,
+      poolLength: body.poolLengthMeters,
+      poolUnit: body.poolUnit,
       targetDistanceMeters: body.targetDistanceMeters,
       targetDurationMinutes: body.targetDurationMinutes,
+      distanceToleranceMeters: body.distanceToleranceMeters,
+      seed: body.seed,
+      cssPer100Seconds: body.cssPer100Seconds,
+      basePacePer100Seconds: body.basePacePer100Seconds,
+      targetEvent: body.targetEvent,
+      equipment: body.equipment?.map((item) => normalizeEquipment(item) as Equipment),
+      lanes: body.lanes,
+      paceClock: body.paceClock,
       focus: body.focus,
       profile: body.profile,
       title: body.title
     };
 
-    const dsl = generateWorkoutDSL(constraints);
-    const interpreted: InterpretedWorkout = interpretShorthand(dsl);
+    const generated = generateWorkoutCandidates(
+      constraints,
+      body.candidates ?? 1,
+      userTemplate,
+      taggedTemplates
+    );
+    const withinBudget = generated.filter((c) => !c.duration || c.duration.withinBudget);
+    const candidates = withinBudget.filter(
+      (c) =>
+        body.targetDistanceMeters === undefined ||
+        c.binding.constraint !== 'distance' ||
+        !c.distance ||
+        c.distance.withinTolerance
+    );
+
+    if (withinBudget.length === 0) {
+      const shortest = Math.min(...generated.map((c) => c.duration?.achievedMinutes ?? 0));
+      return res.status(400).json({
+        error: `Invalid "targetDurationMinutes". No ${body.focus} workout fits in ${body.targetDurationMinutes} min; the shortest generated needs about ${Math.ceil(shortest)} min.`
+      });
+    }
+
+    if (candidates.length === 0) {
+      const misses = withinBudget.map((c) => Math.abs(c.distance?.differenceMeters ?? 0));
+      const closest = Math.round(Math.min(...misses));
+      return res.status(400).json({
+        error: `Invalid "targetDistanceMeters". No ${body.focus} workout lands within ${body.distanceToleranceMeters ?? 0} m of the target; the closest generated misses it by ${closest} m. Change the target or widen "distanceToleranceMeters".`
+      });
+    }
+
+    if (body.candidates === undefined) {
+      return res.status(200).json(candidates[0]);
+    }
 
+    // A focus with few block variations (or a tight time budget) can yield
+    // fewer distinct candidates than requested.
     return res.status(200).json({
-      dsl,
-      interpreted
+      seed: candidates[0].seed,
+      requested: body.candidates,
+      returned: candidates.length,
+      candidates
     });
   } catch (err) {
     console.error('Error generating workout:', err);
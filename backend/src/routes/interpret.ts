@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { interpretShorthand } from '../core/dsl/interpreter';
+import { formatInterpretedWorkout } from '../core/dsl/formatter';
 import { InterpretedWorkout } from '../core/models/WorkoutTypes';
 
 const router = Router();
@@ -28,4 +29,28 @@ router.post('/', (req: Request<unknown, unknown, InterpretRequestBody>, res: Res
   }
 });
 
+router.post('/format', (req: Request<unknown, unknown, InterpretRequestBody>, res: Response) => {
+  const { shorthand } = req.body || {};
+
+  if (typeof shorthand !== 'string' || shorthand.trim().length === 0) {
+    return res.status(400).json({
+      error: 'Invalid request body. Expected non-empty "shorthand" field of type string.'
+    });
+  }
+
+  try {
+    const interpreted: InterpretedWorkout = interpretShorthand(shorthand);
+    const formatted = formatInterpretedWorkout(shorthand, interpreted);
+    return res.status(200).json({
+      shorthand: formatted,
+      interpreted: interpretShorthand(formatted)
+    });
+  } catch (err) {
+    console.error('Error formatting shorthand:', err);
+    return res.status(500).json({
+      error: 'Failed to format shorthand workout.'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import {
+  LanguagePosition,
+  getCompletions,
+  getDocumentSymbols,
+  getHover
+} from '../core/dsl/languageService';
+
+const router = Router();
+
+const JSON_RPC_VERSION = '2.0';
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+type RpcId = string | number | null;
+
+interface LanguageServiceRequestBody {
+  jsonrpc?: string;
+  id?: RpcId;
+  method?: string;
+  params?: {
+    text?: unknown;
+    position?: Partial<LanguagePosition>;
+  };
+}
+
+type MethodHandler = (text: string, position?: LanguagePosition) => unknown;
+
+const METHODS: Record<string, { needsPosition: boolean; handler: MethodHandler }> = {
+  'textDocument/completion': {
+    needsPosition: true,
+    handler: (text, position) => getCompletions(text, position as LanguagePosition)
+  },
+  'textDocument/hover': {
+    needsPosition: true,
+    handler: (text, position) => getHover(text, position as LanguagePosition)
+  },
+  'textDocument/documentSymbol': {
+    needsPosition: false,
+    handler: (text) => getDocumentSymbols(text)
+  }
+};
+
+router.post('/', (req: Request<unknown, unknown, LanguageServiceRequestBody>, res: Response) => {
+  const body = req.body || {};
+  const id = body.id ?? null;
+
+  const fail = (code: number, message: string) =>
+    res.status(200).json({ jsonrpc: JSON_RPC_VERSION, id, error: { code, message } });
+
+  if (body.jsonrpc !== JSON_RPC_VERSION || typeof body.method !== 'string') {
+    return fail(INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request with a "method" field.');
+  }
+
+  const method = METHODS[body.method];
+  if (!method) {
+    return fail(
+      METHOD_NOT_FOUND,
+      `Unknown method "${body.method}". Expected one of: ${Object.keys(METHODS).join(', ')}.`
+    );
+  }
+
+  const text = body.params?.text;
+  if (typeof text !== 'string') {
+    return fail(INVALID_PARAMS, 'Invalid "params.text". Expected a string.');
+  }
+
+  const position = body.params?.position;
+  if (
+    method.needsPosition &&
+    (!position ||
+      typeof position.lineNumber !== 'number' ||
+      typeof position.column !== 'number' ||
+      !Number.isInteger(position.lineNumber) ||
+      !Number.isInteger(position.column) ||
+      position.lineNumber < 1 ||
+      position.column < 1)
+  ) {
+    return fail(
+      INVALID_PARAMS,
+      'Invalid "params.position". Expected 1-based integer "lineNumber" and "column".'
+    );
+  }
+
+  try {
+    const result = method.handler(text, position as LanguagePosition | undefined);
+    return res.status(200).json({ jsonrpc: JSON_RPC_VERSION, id, result });
+  } catch (err) {
+    console.error('Error handling language-service request:', err);
+    return fail(INTERNAL_ERROR, 'Failed to handle language-service request.');
+  }
+});
+
+export default router;
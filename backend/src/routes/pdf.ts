@@ -2,7 +2,10 @@ import { Router, Request, Response } from 'express';
 import { getWorkoutById } from '../db/workoutRepo';
 import { interpretShorthand } from '../core/dsl/interpreter';
 import { htmlToPdf } from '../core/pdf/playwrightPool';
-import { renderWorkoutHtml } from '../core/pdf/renderHtml';
+import { WorkoutSheet, renderWorkoutSheetsHtml } from '../core/pdf/renderHtml';
+import { workoutForGroup } from '../core/dsl/groups';
+import { CLOCK_ALIGNMENTS, buildTimeline } from '../core/timeline/timeline';
+import { ClockAlignment } from '../core/models/WorkoutTypes';
 
 const router = Router();
 
@@ -10,6 +13,12 @@ router.get('/workouts/:id/pdf', async (req: Request, res: Response) => {
   const { id } = req.params;
   const viewParam = (req.query.view as string) || 'coach';
   const view = viewParam === 'swimmer' ? 'swimmer' : 'coach';
+  const leaveAt = req.query.leaveAt === 'true' || req.query.leaveAt === '1';
+  const alignParam = req.query.align as string | undefined;
+  const align = CLOCK_ALIGNMENTS.includes(alignParam as ClockAlignment)
+    ? (alignParam as ClockAlignment)
+    : 'none';
+  const splitLanes = req.query.lanes === 'split';
 
   try {
     console.log(`[PDF] Request for workout ${id}, view=${view}`);
@@ -21,7 +30,15 @@ router.get('/workouts/:id/pdf', async (req: Request, res: Response) => {
     }
 
     const interpreted = interpretShorthand(workout.shorthand);
-    const html = renderWorkoutHtml(interpreted, view);
+    const workouts =
+      splitLanes && interpreted.groups
+        ? interpreted.groups.map((group) => workoutForGroup(interpreted, group))
+        : [interpreted];
+    const sheets: WorkoutSheet[] = workouts.map((sheetWorkout) => ({
+      workout: sheetWorkout,
+      timeline: leaveAt ? buildTimeline(sheetWorkout, { align }) : undefined
+    }));
+    const html = renderWorkoutSheetsHtml(sheets, view);
     const pdfBuffer = await htmlToPdf(html);
 
     res.setHeader('Content-Type', 'application/pdf');
@@ -0,0 +1,272 @@
+import { Router, Request, Response } from 'express';
+import { parseRaceEvent } from '../core/generator/generator';
+import { toMeters } from '../core/dsl/units';
+import { DistanceUnit, FOCUSES, PROFILES } from '../core/models/WorkoutTypes';
+import {
+  PlanParameters,
+  PlanWeek,
+  buildPlan,
+  buildPlanWeek,
+  parsePlanDate,
+  planWeekCount
+} from '../core/plan/planner';
+import {
+  PlanRow,
+  createPlan,
+  getPlanById,
+  incrementPlanWeekRevision,
+  updatePlanWeek
+} from '../db/planRepo';
+import { createWorkout } from '../db/workoutRepo';
+
+const router = Router();
+
+type PlanRequestBody = Omit<PlanParameters, 'seed'> & {
+  seed?: number;
+  save?: boolean;
+};
+
+const VALID_POOL_UNIT: DistanceUnit[] = ['m', 'yd'];
+const MAX_SESSIONS_PER_WEEK = 14;
+const MAX_PLAN_WEEKS = 52;
+const MAX_SESSION_METERS = 20000;
+const MAX_SEED = 2 ** 31;
+
+function validatePlanBody(body: PlanRequestBody): string | undefined {
+  for (const key of ['startDate', 'endDate', 'meetDate'] as const) {
+    if (typeof body[key] !== 'string' || !parsePlanDate(body[key])) {
+      return `Invalid "${key}". Expected a date in YYYY-MM-DD format.`;
+    }
+  }
+
+  if (!(body.startDate <= body.meetDate && body.meetDate <= body.endDate)) {
+    return 'Invalid season window. Expected startDate <= meetDate <= endDate.';
+  }
+
+  if (
+    typeof body.sessionsPerWeek !== 'number' ||
+    !Number.isInteger(body.sessionsPerWeek) ||
+    body.sessionsPerWeek < 1 ||
+    body.sessionsPerWeek > MAX_SESSIONS_PER_WEEK
+  ) {
+    return `Invalid "sessionsPerWeek". Expected an integer between 1 and ${MAX_SESSIONS_PER_WEEK}.`;
+  }
+
+  if (
+    typeof body.peakWeeklyMeters !== 'number' ||
+    !Number.isFinite(body.peakWeeklyMeters) ||
+    body.peakWeeklyMeters <= 0 ||
+    body.peakWeeklyMeters > MAX_SESSION_METERS * body.sessionsPerWeek
+  ) {
+    return `Invalid "peakWeeklyMeters". Expected a positive number up to ${MAX_SESSION_METERS} per session.`;
+  }
+
+  if (
+    typeof body.poolLengthMeters !== 'number' ||
+    !Number.isFinite(body.poolLengthMeters) ||
+    body.poolLengthMeters <= 0
+  ) {
+    return 'Invalid "poolLengthMeters". Expected a positive number (e.g., 25 or 50).';
+  }
+
+  if (body.poolUnit !== undefined && !VALID_POOL_UNIT.includes(body.poolUnit)) {
+    return `Invalid "poolUnit". Expected one of: ${VALID_POOL_UNIT.join(', ')}.`;
+  }
+
+  if (typeof body.profile !== 'string' || !PROFILES.includes(body.profile)) {
+    return `Invalid "profile". Expected one of: ${PROFILES.join(', ')}.`;
+  }
+
+  if (body.focus !== undefined && !FOCUSES.includes(body.focus)) {
+    return `Invalid "focus". Expected one of: ${FOCUSES.join(', ')}.`;
+  }
+
+  if (
+    body.targetEvent !== undefined &&
+    (typeof body.targetEvent !== 'string' || !parseRaceEvent(body.targetEvent))
+  ) {
+    return 'Invalid "targetEvent". If provided, it must be a race distance and stroke such as "200 BK" or "100 FL".';
+  }
+
+  if (
+    body.seed !== undefined &&
+    (typeof body.seed !== 'number' || !Number.isInteger(body.seed) || body.seed < 0)
+  ) {
+    return 'Invalid "seed". If provided, it must be a non-negative integer.';
+  }
+
+  if (body.save !== undefined && typeof body.save !== 'boolean') {
+    return 'Invalid "save". If provided, it must be a boolean.';
+  }
+
+  return undefined;
+}
+
+function parseWeekParam(value: string, parameters: PlanParameters): number | undefined {
+  const week = Number(value);
+  if (!Number.isInteger(week) || week < 1 || week > planWeekCount(parameters)) {
+    return undefined;
+  }
+  return week;
+}
+
+async function saveWeek(week: PlanWeek, parameters: PlanParameters): Promise<PlanWeek> {
+  const sessions = [];
+
+  for (const session of week.sessions) {
+    const workout = await createWorkout({
+      title: session.title,
+      poolLengthMeters: Math.round(toMeters(parameters.poolLengthMeters, parameters.poolUnit ?? 'm')),
+      plannedDurationMinutes: Math.round(session.estimatedMinutes),
+      focus: session.focus,
+      profile: parameters.profile,
+      shorthand: session.dsl,
+      totalDistanceMeters: session.distanceMeters
+    });
+    sessions.push({ ...session, workoutId: workout.id });
+  }
+
+  return { ...week, sessions };
+}
+
+function toPlanResponse(plan: PlanRow) {
+  return {
+    id: plan.id,
+    parameters: plan.parameters,
+    weekCount: planWeekCount(plan.parameters),
+    createdAt: plan.createdAt,
+    updatedAt: plan.updatedAt
+  };
+}
+
+router.post('/', async (req: Request<unknown, unknown, PlanRequestBody>, res: Response) => {
+  const body = req.body || ({} as PlanRequestBody);
+
+  const error = validatePlanBody(body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  const parameters: PlanParameters = {
+    startDate: body.startDate,
+    endDate: body.endDate,
+    meetDate: body.meetDate,
+    sessionsPerWeek: body.sessionsPerWeek,
+    peakWeeklyMeters: body.peakWeeklyMeters,
+    poolLengthMeters: body.poolLengthMeters,
+    poolUnit: body.poolUnit,
+    profile: body.profile,
+    focus: body.focus,
+    targetEvent: body.targetEvent,
+    seed: body.seed ?? Math.floor(Math.random() * MAX_SEED)
+  };
+
+  if (planWeekCount(parameters) > MAX_PLAN_WEEKS) {
+    return res.status(400).json({
+      error: `Invalid season window. Plans can span at most ${MAX_PLAN_WEEKS} weeks.`
+    });
+  }
+
+  try {
+    let weeks = buildPlan(parameters);
+
+    if (body.save) {
+      const savedWeeks = [];
+      for (const week of weeks) {
+        savedWeeks.push(await saveWeek(week, parameters));
+      }
+      weeks = savedWeeks;
+    }
+
+    const plan = await createPlan(parameters, weeks);
+    return res.status(201).json({ plan: toPlanResponse(plan), weeks: plan.weeks });
+  } catch (err) {
+    console.error('Error creating plan:', err);
+    return res.status(500).json({ error: 'Failed to create plan.' });
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const plan = await getPlanById(id);
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found.' });
+    }
+
+    return res.json({ plan: toPlanResponse(plan), weeks: plan.weeks });
+  } catch (err) {
+    console.error('Error fetching plan:', err);
+    return res.status(500).json({ error: 'Failed to fetch plan.' });
+  }
+});
+
+router.get('/:id/weeks/:week', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const plan = await getPlanById(id);
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found.' });
+    }
+
+    const weekNumber = parseWeekParam(req.params.week, plan.parameters);
+    if (weekNumber === undefined) {
+      return res.status(400).json({
+        error: `Invalid week. Expected an integer between 1 and ${planWeekCount(plan.parameters)}.`
+      });
+    }
+
+    return res.json({ plan: toPlanResponse(plan), week: plan.weeks[weekNumber - 1] });
+  } catch (err) {
+    console.error('Error fetching plan week:', err);
+    return res.status(500).json({ error: 'Failed to fetch plan week.' });
+  }
+});
+
+router.post('/:id/weeks/:week/regenerate', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { save } = (req.body || {}) as { save?: boolean };
+
+  if (save !== undefined && typeof save !== 'boolean') {
+    return res.status(400).json({ error: 'Invalid "save". If provided, it must be a boolean.' });
+  }
+
+  try {
+    const plan = await getPlanById(id);
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found.' });
+    }
+
+    const weekNumber = parseWeekParam(req.params.week, plan.parameters);
+    if (weekNumber === undefined) {
+      return res.status(400).json({
+        error: `Invalid week. Expected an integer between 1 and ${planWeekCount(plan.parameters)}.`
+      });
+    }
+
+    const revision = await incrementPlanWeekRevision(id, weekNumber - 1);
+    if (revision === null) {
+      return res.status(404).json({ error: 'Plan not found.' });
+    }
+
+    const generated = buildPlanWeek(plan.parameters, weekNumber, revision);
+    const week = save ? await saveWeek(generated, plan.parameters) : generated;
+
+    const updated = await updatePlanWeek(id, weekNumber - 1, week);
+    if (!updated) {
+      return res.status(409).json({ error: 'Week was regenerated by another request. Fetch the plan and retry.' });
+    }
+
+    return res.json({ plan: toPlanResponse(updated), week });
+  } catch (err) {
+    console.error('Error regenerating plan week:', err);
+    return res.status(500).json({ error: 'Failed to regenerate plan week.' });
+  }
+});
+
+export default router;
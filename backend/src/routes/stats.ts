@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { listWorkouts } from '../db/workoutRepo';
+import { interpretShorthand } from '../core/dsl/interpreter';
+import { toMeters } from '../core/dsl/units';
 
 const router = Router();
 
@@ -15,13 +17,34 @@ router.get('/summary', async (_req: Request, res: Response) => {
     let totalDistance = 0;
     let distanceLast7 = 0;
     let distanceLast30 = 0;
+    let estimatedDistance = 0;
+    let totalMinutes = 0;
 
     const distanceByFocus: Record<string, number> = {};
     const distanceByProfile: Record<string, number> = {};
+    const distanceByPoolUnit: Record<string, number> = {};
+    const distanceByStroke: Record<string, number> = {};
+    const distanceByActivity: Record<string, number> = {};
 
     for (const w of workouts) {
-      const dist = w.totalDistanceMeters ?? 0;
+      const { totals } = interpretShorthand(w.shorthand);
+      const dist = totals.totalDistanceMeters;
       totalDistance += dist;
+      estimatedDistance += totals.estimatedDistanceMeters ?? 0;
+      totalMinutes += totals.estimatedMinutes ?? 0;
+
+      distanceByPoolUnit[totals.unit] =
+        (distanceByPoolUnit[totals.unit] || 0) + totals.totalDistance;
+
+      for (const [stroke, strokeDist] of Object.entries(totals.distanceByStroke)) {
+        distanceByStroke[stroke] =
+          (distanceByStroke[stroke] || 0) + Math.round(toMeters(strokeDist, totals.unit));
+      }
+
+      for (const [activity, activityDist] of Object.entries(totals.distanceByActivity)) {
+        distanceByActivity[activity] =
+          (distanceByActivity[activity] || 0) + Math.round(toMeters(activityDist, totals.unit));
+      }
 
       const created = w.createdAt;
 
@@ -42,9 +65,14 @@ router.get('/summary', async (_req: Request, res: Response) => {
 
     const summary = {
       totalDistanceMeters: totalDistance,
+      estimatedDistanceMeters: estimatedDistance,
+      totalEstimatedMinutes: Math.round(totalMinutes),
       workoutCount: workouts.length,
       distanceByFocus,
       distanceByProfile,
+      distanceByPoolUnit,
+      distanceByStroke,
+      distanceByActivity,
       distanceLast7Days: distanceLast7,
       distanceLast30Days: distanceLast30
     };
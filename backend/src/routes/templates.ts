@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { interpretShorthand } from '../core/dsl/interpreter';
+import { userTemplateIssues } from '../core/generator/generator';
+import { FOCUSES, Focus, PROFILES, Profile } from '../core/models/WorkoutTypes';
+import {
+  createTemplate,
+  deleteTemplateById,
+  getTemplateById,
+  listTemplates,
+  updateTemplateById,
+  TemplateRow
+} from '../db/templateRepo';
+
+const router = Router();
+
+interface TemplateRequestBody {
+  name?: string;
+  focus?: string;
+  profile?: string;
+  shorthand?: string;
+}
+
+function validateTemplateBody(body: TemplateRequestBody): string | undefined {
+  if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+    return 'name is required and must be a non-empty string.';
+  }
+
+  if (!body.shorthand || typeof body.shorthand !== 'string') {
+    return 'shorthand is required and must be a string.';
+  }
+
+  if (
+    body.focus !== undefined &&
+    !FOCUSES.includes(body.focus as Focus)
+  ) {
+    return `Invalid "focus". Expected one of: ${FOCUSES.join(', ')}.`;
+  }
+
+  if (
+    body.profile !== undefined &&
+    !PROFILES.includes(body.profile as Profile)
+  ) {
+    return `Invalid "profile". Expected one of: ${PROFILES.join(', ')}.`;
+  }
+
+  return undefined;
+}
+
+router.post('/', async (req: Request, res: Response) => {
+  const body = (req.body || {}) as TemplateRequestBody;
+
+  const error = validateTemplateBody(body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const interpreted = interpretShorthand(body.shorthand as string);
+    const issues = userTemplateIssues(interpreted);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: 'Template shorthand is not valid.', issues, interpreted });
+    }
+
+    const template = await createTemplate({
+      name: (body.name as string).trim(),
+      focus: body.focus,
+      profile: body.profile,
+      shorthand: body.shorthand as string
+    });
+
+    return res.status(201).json({ template, interpreted });
+  } catch (err) {
+    console.error('Error creating template:', err);
+    return res.status(500).json({ error: 'Failed to create template.' });
+  }
+});
+
+router.get('/', async (req: Request, res: Response) => {
+  const focus = req.query.focus as string | undefined;
+  const profile = req.query.profile as string | undefined;
+
+  try {
+    const templates: TemplateRow[] = await listTemplates({ focus, profile });
+    return res.json({ templates });
+  } catch (err) {
+    console.error('Error listing templates:', err);
+    return res.status(500).json({ error: 'Failed to list templates.' });
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const template = await getTemplateById(id);
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found.' });
+    }
+
+    const interpreted = interpretShorthand(template.shorthand);
+    return res.json({ template, interpreted });
+  } catch (err) {
+    console.error('Error fetching template:', err);
+    return res.status(500).json({ error: 'Failed to fetch template.' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const body = (req.body || {}) as TemplateRequestBody;
+
+  const error = validateTemplateBody(body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const interpreted = interpretShorthand(body.shorthand as string);
+    const issues = userTemplateIssues(interpreted);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: 'Template shorthand is not valid.', issues, interpreted });
+    }
+
+    const updated = await updateTemplateById(id, {
+      name: (body.name as string).trim(),
+      focus: body.focus,
+      profile: body.profile,
+      shorthand: body.shorthand as string
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Template not found.' });
+    }
+
+    return res.json({ template: updated, interpreted });
+  } catch (err) {
+    console.error('Error updating template:', err);
+    return res.status(500).json({ error: 'Failed to update template.' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await deleteTemplateById(id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Template not found.' });
+    }
+
+    return res.status(204).send();
+  } catch (err) {
+    console.error('Error deleting template:', err);
+    return res.status(500).json({ error: 'Failed to delete template.' });
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { interpretShorthand } from '../core/dsl/interpreter';
+import { CLOCK_ALIGNMENTS, buildTimeline } from '../core/timeline/timeline';
+import { ClockAlignment } from '../core/models/WorkoutTypes';
 import {
   createWorkout,
   getWorkoutById,
@@ -81,6 +83,43 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+router.get('/:id/timeline', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const align = (req.query.align as string | undefined) ?? 'none';
+  const restParam = req.query.restBetweenSets as string | undefined;
+  const restBetweenSetsSeconds = restParam !== undefined ? Number(restParam) : 0;
+
+  if (!CLOCK_ALIGNMENTS.includes(align as ClockAlignment)) {
+    return res.status(400).json({
+      error: `Invalid "align". Expected one of: ${CLOCK_ALIGNMENTS.join(', ')}.`
+    });
+  }
+
+  if (!Number.isInteger(restBetweenSetsSeconds) || restBetweenSetsSeconds < 0) {
+    return res.status(400).json({
+      error: 'Invalid "restBetweenSets". If provided, it must be a non-negative whole number of seconds.'
+    });
+  }
+
+  try {
+    const workout = await getWorkoutById(id);
+
+    if (!workout) {
+      return res.status(404).json({ error: 'Workout not found.' });
+    }
+
+    const interpreted = interpretShorthand(workout.shorthand);
+    const timeline = buildTimeline(interpreted, {
+      align: align as ClockAlignment,
+      restBetweenSetsSeconds
+    });
+    return res.json({ workout, timeline });
+  } catch (err) {
+    console.error('Error building workout timeline:', err);
+    return res.status(500).json({ error: 'Failed to build workout timeline.' });
+  }
+});
+
 router.put('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
 
@@ -5,6 +5,9 @@ import generateRouter from './routes/generate';
 import workoutsRouter from './routes/workouts';
 import pdfRouter from './routes/pdf';
 import statsRouter from './routes/stats';
+import languageServiceRouter from './routes/languageService';
+import templatesRouter from './routes/templates';
+import plansRouter from './routes/plans';
 import { initPlaywright } from './core/pdf/playwrightPool';
 
 const app = express();
@@ -20,6 +23,9 @@ app.use('/interpret', interpretRouter);
 app.use('/generate', generateRouter);
 app.use('/workouts', workoutsRouter);
 app.use('/stats', statsRouter);
+app.use('/language-service', languageServiceRouter);
+app.use('/templates', templatesRouter);
+app.use('/plans', plansRouter);
 
 app.use(pdfRouter);
 
@@ -246,7 +246,7 @@ struct WorkoutResultsView: View {
 
                         ForEach(section.sets) { set in
                             HStack {
-                                Text("\(set.reps) x \(set.distanceMeters)m")
+                                Text("\(set.reps) x \(Int(set.distanceMeters.rounded()))m")
                                     .font(.body)
                                 Text(set.stroke)
                                     .font(.body)
@@ -275,8 +275,8 @@ struct WorkoutResultsView: View {
                     VStack(alignment: .leading, spacing: 4) {
                         Text("Warnings")
                             .font(.headline)
-                        ForEach(interpreted.warnings, id: \.self) { warning in
-                            Text("• \(warning)")
+                        ForEach(interpreted.warnings) { warning in
+                            Text("• Line \(warning.lineNumber): \(warning.message)")
                                 .font(.footnote)
                                 .foregroundColor(.orange)
                         }
@@ -5,6 +5,13 @@ private enum WorkoutFocus: String, CaseIterable, Identifiable {
     case threshold
     case sprint
     case technique
+    case backstroke
+    case breaststroke
+    case butterfly
+    case im
+    case distanceFree = "distance-free"
+    case racePace = "race-pace"
+    case recovery
 
     var id: String { rawValue }
 
@@ -14,6 +21,13 @@ private enum WorkoutFocus: String, CaseIterable, Identifiable {
         case .threshold: return "Threshold"
         case .sprint: return "Sprint"
         case .technique: return "Technique"
+        case .backstroke: return "Backstroke"
+        case .breaststroke: return "Breaststroke"
+        case .butterfly: return "Butterfly"
+        case .im: return "IM"
+        case .distanceFree: return "Distance Free"
+        case .racePace: return "Race Pace"
+        case .recovery: return "Recovery"
         }
     }
 }
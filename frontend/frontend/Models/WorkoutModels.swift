@@ -13,7 +13,7 @@ struct WorkoutSetInterval: Codable, Identifiable {
 
     var section: String
     var reps: Int
-    var distanceMeters: Int
+    var distanceMeters: Double
     var stroke: String
     var sendOffSeconds: Int?
     var intensity: String?
@@ -32,10 +32,20 @@ struct WorkoutTotals: Codable {
     var estimatedMinutes: Double?
 }
 
+struct DiagnosticSuggestionDTO: Codable {
+    var message: String
+    var replacement: String
+}
+
 struct ParseErrorDTO: Codable, Identifiable {
-    var id: Int { lineNumber }
+    var id: String { "\(lineNumber):\(column ?? 0):\(code ?? "")" }
     var lineNumber: Int
+    var column: Int?
+    var endColumn: Int?
+    var code: String?
+    var severity: String?
     var message: String
+    var suggestion: DiagnosticSuggestionDTO?
 }
 
 struct InterpretedWorkoutDTO: Codable {
@@ -43,7 +53,7 @@ struct InterpretedWorkoutDTO: Codable {
     var sets: [WorkoutSetInterval]
     var totals: WorkoutTotals
     var errors: [ParseErrorDTO]
-    var warnings: [String]
+    var warnings: [ParseErrorDTO]
 }
 
 struct GenerateConstraintsDTO: Codable {